@@ -76,8 +76,9 @@ function startMockServer() {
         const { buffer, nextPhase } = createSineWaveFrame(440, SAMPLE_RATE, SAMPLES_PER_FRAME, currentPhase);
         currentPhase = nextPhase;
         
-        const encodedOpus = opusCodec.encode(buffer);
-        sendAudio(ws, encodedOpus);
+        for (const encodedOpus of opusCodec.encodeFrames(buffer)) {
+          sendAudio(ws, encodedOpus);
+        }
         packetCount++;
       }, FRAME_DURATION_MS); 
       
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useSocketContext } from "../SocketContext";
-import { decodeMessage } from "../../../protocol/encoder";
+import { decodeMessage } from "../../../protocol/types";
 import { useMediaContext } from "../MediaContext";
 import { createDecoderWorker, initDecoder, getPrewarmedWorker } from "../../../decoder/decoderWorker";
 
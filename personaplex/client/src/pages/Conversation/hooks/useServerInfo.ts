@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useState } from "react";
 import { useSocketContext } from "../SocketContext";
-import { decodeMessage } from "../../../protocol/encoder";
+import { decodeMessage } from "../../../protocol/types";
 import { z } from "zod";
 
 const ServersInfoSchema = z.object({
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useState } from "react";
 import { useSocketContext } from "../SocketContext";
-import { decodeMessage } from "../../../protocol/encoder";
+import { decodeMessage } from "../../../protocol/types";
 
 export const useServerText = () => {
   const [text, setText] = useState<string[]>([]);
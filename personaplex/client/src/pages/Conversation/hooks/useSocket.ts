@@ -1,13 +1,18 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { WSMessage, SocketStatus } from "../../../protocol/types";
-import { decodeMessage, encodeMessage } from "../../../protocol/encoder";
+import {
+  WSMessage,
+  ReceivedWSMessage,
+  SocketStatus,
+  decodeMessage,
+  encodeMessage,
+} from "../../../protocol/types";
 
 export const useSocket = ({
   onMessage,
   uri,
   onDisconnect: onDisconnectProp,
 }: {
-  onMessage?: (message: WSMessage) => void;
+  onMessage?: (message: ReceivedWSMessage) => void;
   uri: string;
   onDisconnect?: () => void;
 }) => {
@@ -1,60 +1,23 @@
-export type MessageType =
-  | "handshake"
-  | "audio"
-  | "text"
-  | "control"
-  | "metadata";
+import type {
+  ControlActionName,
+  DecodedMessage,
+  ProtocolMessage,
+} from "@shared/protocol";
 
-export const VERSIONS_MAP = {
-  0: 0b00000000,
-} as const;
+// The wire format lives in the bridge's shared protocol module (src/protocol),
+// so the client and the bridge encode and decode identically.
+export {
+  ControlAction as CONTROL_MESSAGES_MAP,
+  encodeMessage,
+  decodeMessage,
+} from "@shared/protocol";
 
-export const MODELS_MAP = {
-  0: 0b00000000,
-} as const;
+/** A message the client can send (or receive) */
+export type WSMessage = ProtocolMessage;
 
-export type VERSION = keyof typeof VERSIONS_MAP;
-
-export type MODEL = keyof typeof MODELS_MAP;
-
-export type WSMessage =
-  | {
-      type: "handshake";
-      version: VERSION;
-      model: MODEL;
-    }
-  | {
-      type: "audio";
-      data: Uint8Array;
-    }
-  | {
-      type: "text";
-      data: string;
-    }
-  | {
-      type: "control";
-      action: CONTROL_MESSAGE;
-    }
-  | {
-      type: "metadata";
-      data: unknown;
-    }
-  | {
-    type: "error";
-    data: string;
-  }
-  | {
-    type:"ping";
-  }
+/** Anything decodeMessage can return, including invalid and unknown messages */
+export type ReceivedWSMessage = DecodedMessage;
 
+export type CONTROL_MESSAGE = ControlActionName;
 
 export type SocketStatus = "connected" | "disconnected" | "connecting";
-
-export const CONTROL_MESSAGES_MAP = {
-  start: 0b00000000,
-  endTurn: 0b00000001,
-  pause: 0b00000010,
-  restart: 0b00000011,
-} as const;
-
-export type CONTROL_MESSAGE = keyof typeof CONTROL_MESSAGES_MAP;
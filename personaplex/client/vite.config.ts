@@ -1,5 +1,9 @@
 import { ProxyOptions, defineConfig, loadEnv } from "vite";
 import topLevelAwait from "vite-plugin-top-level-await";
+import { fileURLToPath } from "url";
+
+// Protocol encoder/decoder shared with the bridge (keep in sync with tsconfig.json "paths")
+const sharedProtocol = fileURLToPath(new URL("../../src/protocol", import.meta.url));
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, process.cwd());
@@ -10,8 +14,16 @@ export default defineConfig(({mode}) => {
     },
   } : {};
   return {
+    resolve: {
+      alias: {
+        "@shared/protocol": `${sharedProtocol}/index.ts`,
+      },
+    },
     server: {
       host: "0.0.0.0",
+      fs: {
+        allow: [".", sharedProtocol],
+      },
       https: {
         cert: "./cert.pem",
         key: "./key.pem",
@@ -0,0 +1,156 @@
+/**
+ * Barge-in detection
+ *
+ * Watches caller audio for speech onset while the bot is talking, so the
+ * bridge can cut stale bot playback as soon as the caller interrupts.
+ *
+ * - Bot "speaking" state is tracked from the energy of outbound audio,
+ *   extended by the playback duration of each voiced chunk.
+ * - Caller onset is a run of consecutive chunks above an energy threshold
+ *   derived from the configured sensitivity.
+ */
+
+/**
+ * Barge-in tuning options
+ */
+export interface BargeInOptions {
+  /** Enable barge-in detection (default: true) */
+  enabled?: boolean;
+  /** Sensitivity from 0 (least) to 1 (most sensitive) (default: 0.5) */
+  sensitivity?: number;
+  /** Caller speech must last this long to count as an interruption (default: 200ms) */
+  minSpeechMs?: number;
+  /** Bot counts as speaking for this long after its last voiced audio (default: 300ms) */
+  botHangoverMs?: number;
+}
+
+/** Energy below which bot output is treated as silence */
+const BOT_VOICED_DBFS = -45;
+/** Caller threshold at sensitivity 0 and 1 respectively */
+const CALLER_DBFS_LEAST_SENSITIVE = -20;
+const CALLER_DBFS_MOST_SENSITIVE = -50;
+
+/**
+ * Compute RMS level of a chunk in dBFS
+ */
+export function rmsDbfs(pcm: Float32Array): number {
+  if (pcm.length === 0) {
+    return -Infinity;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const sample = pcm[i]!;
+    sum += sample * sample;
+  }
+
+  const rms = Math.sqrt(sum / pcm.length);
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+}
+
+/**
+ * Detects caller interruptions of bot speech
+ *
+ * @example
+ * ```typescript
+ * const detector = new BargeInDetector({ sensitivity: 0.7 });
+ *
+ * // Outbound bot audio
+ * detector.processBotAudio(botPcm, 24000);
+ *
+ * // Inbound caller audio
+ * if (detector.processCallerAudio(callerPcm, 8000)) {
+ *   // Caller interrupted the bot: clear playback
+ * }
+ * ```
+ */
+export class BargeInDetector {
+  private readonly enabled: boolean;
+  private readonly callerThresholdDb: number;
+  private readonly minSpeechMs: number;
+  private readonly botHangoverMs: number;
+  private botSpeakingUntil: number = 0;
+  private callerSpeechMs: number = 0;
+
+  constructor(options: BargeInOptions = {}) {
+    const sensitivity = Math.max(0, Math.min(1, options.sensitivity ?? 0.5));
+
+    this.enabled = options.enabled ?? true;
+    this.callerThresholdDb = CALLER_DBFS_LEAST_SENSITIVE
+      + (CALLER_DBFS_MOST_SENSITIVE - CALLER_DBFS_LEAST_SENSITIVE) * sensitivity;
+    this.minSpeechMs = options.minSpeechMs ?? 200;
+    this.botHangoverMs = options.botHangoverMs ?? 300;
+  }
+
+  /**
+   * Feed outbound bot audio
+   *
+   * @returns true if the chunk contains voiced bot audio
+   */
+  processBotAudio(pcm: Float32Array, sampleRate: number): boolean {
+    const voiced = this.isBotVoiced(pcm);
+
+    if (voiced) {
+      // Audio arrives faster than real time, so extend from the end of what is already queued
+      const durationMs = (pcm.length / sampleRate) * 1000;
+      this.botSpeakingUntil = Math.max(Date.now(), this.botSpeakingUntil) + durationMs;
+    }
+
+    return voiced;
+  }
+
+  /**
+   * Check whether a bot audio chunk contains speech, without updating state
+   */
+  isBotVoiced(pcm: Float32Array): boolean {
+    return rmsDbfs(pcm) > BOT_VOICED_DBFS;
+  }
+
+  /**
+   * Feed inbound caller audio
+   *
+   * @returns true when the caller has started talking over the bot
+   */
+  processCallerAudio(pcm: Float32Array, sampleRate: number): boolean {
+    if (!this.enabled) {
+      return false;
+    }
+
+    if (rmsDbfs(pcm) > this.callerThresholdDb) {
+      this.callerSpeechMs += (pcm.length / sampleRate) * 1000;
+    } else {
+      this.callerSpeechMs = 0;
+    }
+
+    if (this.callerSpeechMs >= this.minSpeechMs && this.botSpeaking) {
+      // Bot playback is being cut, so it is no longer speaking
+      this.botSpeakingUntil = 0;
+      this.callerSpeechMs = 0;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether the bot is currently mid-utterance
+   */
+  get botSpeaking(): boolean {
+    return Date.now() < this.botSpeakingUntil + this.botHangoverMs;
+  }
+
+  /**
+   * Check whether detection is enabled
+   */
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Reset detector state
+   */
+  reset(): void {
+    this.botSpeakingUntil = 0;
+    this.callerSpeechMs = 0;
+  }
+}
@@ -5,11 +5,15 @@
  * Twilio sends audio in 20ms chunks at 8kHz (160 samples per chunk).
  * 
  * This buffer accumulates Twilio chunks until we have enough for a PersonaPlex frame.
+ * Samples are kept in a ring, so reading a frame copies only that frame however
+ * deep the buffer is.
  */
 
 export class AudioBuffer {
-  private buffer: Float32Array;
-  private writePosition: number = 0;
+  private readonly buffer: Float32Array;
+  /** Index of the oldest buffered sample */
+  private readPosition: number = 0;
+  private length: number = 0;
   private readonly frameSize: number;
 
   /**
@@ -26,38 +30,48 @@ export class AudioBuffer {
    * Add audio samples to the buffer
    */
   push(samples: Float32Array): void {
-    // Check if we have space
-    if (this.writePosition + samples.length > this.buffer.length) {
-      // Shift buffer to make room (drop oldest samples)
-      const overflow = this.writePosition + samples.length - this.buffer.length;
-      this.buffer.copyWithin(0, overflow);
-      this.writePosition -= overflow;
+    const capacity = this.buffer.length;
+    if (samples.length >= capacity) {
+      // Only the newest samples fit
+      samples = samples.subarray(samples.length - capacity);
+      this.readPosition = 0;
+      this.length = 0;
     }
 
-    // Copy new samples
-    this.buffer.set(samples, this.writePosition);
-    this.writePosition += samples.length;
+    // Make room by dropping the oldest samples
+    const overflow = this.length + samples.length - capacity;
+    if (overflow > 0) {
+      this.readPosition = (this.readPosition + overflow) % capacity;
+      this.length -= overflow;
+    }
+
+    // Copy new samples, wrapping around the end
+    const writePosition = (this.readPosition + this.length) % capacity;
+    const first = Math.min(samples.length, capacity - writePosition);
+    this.buffer.set(samples.subarray(0, first), writePosition);
+    this.buffer.set(samples.subarray(first), 0);
+    this.length += samples.length;
   }
 
   /**
    * Check if we have at least one complete frame
    */
   hasFrame(): boolean {
-    return this.writePosition >= this.frameSize;
+    return this.length >= this.frameSize;
   }
 
   /**
    * Get the number of complete frames available
    */
   frameCount(): number {
-    return Math.floor(this.writePosition / this.frameSize);
+    return Math.floor(this.length / this.frameSize);
   }
 
   /**
    * Get the number of samples currently buffered
    */
   sampleCount(): number {
-    return this.writePosition;
+    return this.length;
   }
 
   /**
@@ -69,12 +83,9 @@ export class AudioBuffer {
       return null;
     }
 
-    // Extract frame
-    const frame = this.buffer.slice(0, this.frameSize);
-    
-    // Shift remaining samples
-    this.buffer.copyWithin(0, this.frameSize);
-    this.writePosition -= this.frameSize;
+    const frame = this.copyOut(this.frameSize);
+    this.readPosition = (this.readPosition + this.frameSize) % this.buffer.length;
+    this.length -= this.frameSize;
 
     return frame;
   }
@@ -96,22 +107,33 @@ export class AudioBuffer {
    * Peek at buffered samples without removing them
    */
   peek(count?: number): Float32Array {
-    const length = count ?? this.writePosition;
-    return this.buffer.slice(0, Math.min(length, this.writePosition));
+    return this.copyOut(Math.min(count ?? this.length, this.length));
   }
 
   /**
    * Clear the buffer
    */
   clear(): void {
-    this.writePosition = 0;
+    this.readPosition = 0;
+    this.length = 0;
   }
 
   /**
    * Get buffer fill level as a percentage (0-100)
    */
   fillLevel(): number {
-    return (this.writePosition / this.buffer.length) * 100;
+    return (this.length / this.buffer.length) * 100;
+  }
+
+  /**
+   * Copy the oldest samples out of the ring
+   */
+  private copyOut(count: number): Float32Array {
+    const out = new Float32Array(count);
+    const first = Math.min(count, this.buffer.length - this.readPosition);
+    out.set(this.buffer.subarray(this.readPosition, this.readPosition + first));
+    out.set(this.buffer.subarray(0, count - first), first);
+    return out;
   }
 }
 
@@ -129,8 +151,10 @@ export function createPersonaPlexBuffer(): AudioBuffer {
  * Create a buffer suited for Twilio audio output
  * 
  * Twilio expects 20ms chunks at 8kHz = 160 samples per chunk
+ * 
+ * @param maxFrames - Maximum number of chunks to buffer (default: 10 = 200ms)
  */
-export function createTwilioBuffer(): AudioBuffer {
+export function createTwilioBuffer(maxFrames: number = 10): AudioBuffer {
   const TWILIO_CHUNK_SIZE = 160; // 20ms at 8kHz
-  return new AudioBuffer(TWILIO_CHUNK_SIZE);
+  return new AudioBuffer(TWILIO_CHUNK_SIZE, maxFrames);
 }
@@ -0,0 +1,223 @@
+/**
+ * In-band DTMF Detection
+ *
+ * Detects keypad tones in caller PCM, for carriers that deliver keypresses
+ * as audio instead of out-of-band events. Blocks of ~25ms, overlapping by
+ * half so short tones fill whole blocks, are analysed with the Goertzel
+ * algorithm at the eight DTMF frequencies; a block holds a key when:
+ * - It is loud enough and the strongest row and column tones carry most of
+ *   its energy (speech and music spread theirs across the spectrum)
+ * - Each of the two tones clearly beats the other frequencies in its group
+ * - The column tone is within the allowed twist of the row tone
+ *
+ * A key is reported once it holds for `minToneMs`, and the same key again
+ * only after a break in the tone.
+ */
+
+import { EventEmitter } from 'events';
+import { rmsDbfs } from './barge-in.js';
+import { DTMF_COLUMN_FREQUENCIES, DTMF_KEYPAD, DTMF_ROW_FREQUENCIES } from './tone-generator.js';
+
+/** Analysis block length; 205 samples at 8kHz separates adjacent DTMF frequencies */
+const BLOCK_MS = 25.6;
+/** Blocks start every half block */
+const HOP_MS = BLOCK_MS / 2;
+
+/**
+ * DTMF detector options
+ */
+export interface DtmfDetectorOptions {
+  /** Sample rate of the input PCM (default: 8000) */
+  sampleRate?: number;
+  /** A key must hold this long before it is reported (default: 40ms) */
+  minToneMs?: number;
+  /** Blocks quieter than this are never a key (default: -36 dBFS) */
+  minEnergyDb?: number;
+  /** Share of a block's energy the two tones must carry (default: 0.6) */
+  minToneRatio?: number;
+  /** How far each tone must beat the others in its group (default: 8 dB) */
+  minGroupMarginDb?: number;
+  /** How much weaker the column tone may be than the row tone (default: 8 dB) */
+  maxNormalTwistDb?: number;
+  /** How much stronger the column tone may be than the row tone (default: 4 dB) */
+  maxReverseTwistDb?: number;
+}
+
+/**
+ * DtmfDetector events (the same shape as TwilioMediaHandler's `dtmf`)
+ */
+export interface DtmfDetectorEvents {
+  /** A keypress was detected */
+  dtmf: [digit: string];
+}
+
+/**
+ * Streaming Goertzel DTMF detector
+ *
+ * @example
+ * ```typescript
+ * const detector = new DtmfDetector({ sampleRate: 8000 });
+ *
+ * detector.on('dtmf', (digit) => bot.sendDigit(digit));
+ * twilioHandler.on('audio', (pcm) => detector.process(pcm));
+ * ```
+ */
+export class DtmfDetector extends EventEmitter<DtmfDetectorEvents> {
+  private readonly blockSize: number;
+  private readonly hopSize: number;
+  private readonly minBlocks: number;
+  private readonly minEnergyDb: number;
+  private readonly minToneRatio: number;
+  private readonly groupMargin: number;
+  private readonly normalTwist: number;
+  private readonly reverseTwist: number;
+  /** Goertzel coefficients (2cos(ω)) for the row, then the column frequencies */
+  private readonly rowCoefficients: number[];
+  private readonly columnCoefficients: number[];
+  private readonly pending: Float32Array;
+  private pendingLength: number = 0;
+  /** Key heard in the last block, and for how many blocks in a row */
+  private candidate: string | null = null;
+  private candidateBlocks: number = 0;
+  /** Key already reported for the tone still sounding */
+  private reported: string | null = null;
+
+  constructor(options: DtmfDetectorOptions = {}) {
+    super();
+    const sampleRate = options.sampleRate ?? 8000;
+    this.blockSize = Math.round(sampleRate * BLOCK_MS / 1000);
+    this.hopSize = Math.round(this.blockSize / 2);
+    // Whole blocks that fit in a tone of minToneMs
+    this.minBlocks = Math.max(1, Math.floor(((options.minToneMs ?? 40) - BLOCK_MS) / HOP_MS) + 1);
+    this.minEnergyDb = options.minEnergyDb ?? -36;
+    this.minToneRatio = options.minToneRatio ?? 0.6;
+    this.groupMargin = dbToPowerRatio(options.minGroupMarginDb ?? 8);
+    this.normalTwist = dbToPowerRatio(options.maxNormalTwistDb ?? 8);
+    this.reverseTwist = dbToPowerRatio(options.maxReverseTwistDb ?? 4);
+
+    const coefficient = (frequency: number) => 2 * Math.cos(2 * Math.PI * frequency / sampleRate);
+    this.rowCoefficients = DTMF_ROW_FREQUENCIES.map(coefficient);
+    this.columnCoefficients = DTMF_COLUMN_FREQUENCIES.map(coefficient);
+    this.pending = new Float32Array(this.blockSize);
+  }
+
+  /**
+   * Feed PCM audio (any chunk size)
+   */
+  process(pcm: Float32Array): void {
+    let offset = 0;
+    while (offset < pcm.length) {
+      const count = Math.min(this.blockSize - this.pendingLength, pcm.length - offset);
+      this.pending.set(pcm.subarray(offset, offset + count), this.pendingLength);
+      this.pendingLength += count;
+      offset += count;
+
+      if (this.pendingLength === this.blockSize) {
+        this.processBlock(this.pending);
+        this.pending.copyWithin(0, this.hopSize);
+        this.pendingLength -= this.hopSize;
+      }
+    }
+  }
+
+  /**
+   * Reset detector state (a tone in progress is forgotten)
+   */
+  reset(): void {
+    this.pendingLength = 0;
+    this.candidate = null;
+    this.candidateBlocks = 0;
+    this.reported = null;
+  }
+
+  private processBlock(block: Float32Array): void {
+    const key = this.detectKey(block);
+
+    if (key !== this.candidate) {
+      this.candidate = key;
+      this.candidateBlocks = 0;
+      // A break in the tone (or a different key) allows the next report
+      this.reported = null;
+    }
+    if (!key) {
+      return;
+    }
+
+    this.candidateBlocks++;
+    if (this.candidateBlocks >= this.minBlocks && this.reported !== key) {
+      this.reported = key;
+      this.emit('dtmf', key);
+    }
+  }
+
+  /**
+   * The key a block holds, if any
+   */
+  private detectKey(block: Float32Array): string | null {
+    if (rmsDbfs(block) < this.minEnergyDb) {
+      return null;
+    }
+
+    const rows = this.rowCoefficients.map((coefficient) => goertzelPower(block, coefficient));
+    const columns = this.columnCoefficients.map((coefficient) => goertzelPower(block, coefficient));
+    const row = strongest(rows);
+    const column = strongest(columns);
+    const rowPower = rows[row]!;
+    const columnPower = columns[column]!;
+
+    // Each tone must stand out within its group
+    if (rows.some((power, index) => index !== row && power * this.groupMargin > rowPower)) {
+      return null;
+    }
+    if (columns.some((power, index) => index !== column && power * this.groupMargin > columnPower)) {
+      return null;
+    }
+
+    // Carriers attenuate the high group more, so more normal twist is allowed than reverse
+    if (columnPower * this.normalTwist < rowPower || columnPower > rowPower * this.reverseTwist) {
+      return null;
+    }
+
+    // Goertzel power scaled by 2/N is the energy of that tone in the block
+    let energy = 0;
+    for (let i = 0; i < block.length; i++) {
+      energy += block[i]! * block[i]!;
+    }
+    const toneEnergy = (rowPower + columnPower) * 2 / block.length;
+    if (toneEnergy < energy * this.minToneRatio) {
+      return null;
+    }
+
+    return DTMF_KEYPAD[row]![column]!;
+  }
+}
+
+/**
+ * Squared magnitude of one frequency over a block (Goertzel algorithm)
+ *
+ * @param coefficient - 2cos(2πf/sampleRate)
+ */
+function goertzelPower(block: Float32Array, coefficient: number): number {
+  let previous = 0;
+  let beforePrevious = 0;
+  for (let i = 0; i < block.length; i++) {
+    const current = block[i]! + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious;
+}
+
+function strongest(powers: number[]): number {
+  let best = 0;
+  for (let i = 1; i < powers.length; i++) {
+    if (powers[i]! > powers[best]!) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+function dbToPowerRatio(db: number): number {
+  return Math.pow(10, db / 10);
+}
@@ -6,6 +6,11 @@ export * from './converter.js';
 export * from './resampler.js';
 export * from './buffer.js';
 export * from './opus.js'; // Export Opus utilities
+export * from './barge-in.js';
+export * from './vad.js';
+export * from './wav.js';
+export * from './tone-generator.js';
+export * from './dtmf-detector.js';
 
 export const TWILIO_SAMPLE_RATE = 8000;
 export const PERSONAPLEX_SAMPLE_RATE = 24000;
@@ -6,7 +6,8 @@
  * Configured for:
  * - Sample Rate: 24000 Hz (PersonaPlex native)
  * - Channels: 1 (Mono)
- * - Frame Size: 20ms (480 samples) or determined by usage
+ * - Frame Size: 20ms (480 samples) by default; longer chunks are split into
+ *   frames of a legal Opus duration (2.5, 5, 10, 20, 40 or 60ms)
  */
 
 import { createRequire } from 'module';
@@ -18,6 +19,7 @@ const OpusScript = require('opusscript');
 interface OpusScriptInstance {
   encode(buffer: Buffer, frameSize: number): Buffer;
   decode(buffer: Buffer): Buffer;
+  encoderCTL(ctl: number, arg: number): void;
   delete(): void;
 }
 
@@ -26,27 +28,88 @@ const CHANNELS = 1;
 
 // Application types from opus definition
 const APPLICATION_VOIP = 2048;
+const APPLICATION_AUDIO = 2049;
+
+// Encoder CTL requests from opus_defines.h
+const OPUS_SET_BITRATE_REQUEST = 4002;
+const OPUS_SET_COMPLEXITY_REQUEST = 4010;
+const OPUS_SET_INBAND_FEC_REQUEST = 4012;
+const OPUS_SET_PACKET_LOSS_PERC_REQUEST = 4014;
+const OPUS_SET_DTX_REQUEST = 4016;
+
+/**
+ * Frame durations (ms) a single Opus frame can have
+ */
+export const OPUS_FRAME_DURATIONS_MS = [2.5, 5, 10, 20, 40, 60] as const;
+
+export type OpusFrameDuration = (typeof OPUS_FRAME_DURATIONS_MS)[number];
+
+/**
+ * Opus encoder settings
+ */
+export interface OpusCodecOptions {
+  /** Encoder application: voip (speech optimized) or audio (default: voip) */
+  application?: 'voip' | 'audio';
+  /** Target bitrate in bits per second (default: Opus automatic) */
+  bitrate?: number;
+  /** Encoder complexity 0-10 (default: Opus default, 9) */
+  complexity?: number;
+  /** Enable in-band forward error correction (default: false) */
+  fec?: boolean;
+  /** Enable discontinuous transmission during silence (default: false) */
+  dtx?: boolean;
+  /** Expected packet loss in percent 0-100, tunes FEC redundancy (default: 0) */
+  packetLossPercent?: number;
+  /** Duration of each encoded frame (default: 20ms) */
+  frameDurationMs?: OpusFrameDuration;
+}
 
 export class OpusCodec {
   private encoder: OpusScriptInstance;
   private decoder: OpusScriptInstance;
+  private readonly frameSize: number;
+
+  constructor(options: OpusCodecOptions = {}) {
+    validateOptions(options);
 
-  constructor() {
     // Initialize Encoder
-    // Application: VOIP (optimized for voice)
-    this.encoder = new OpusScript(SAMPLE_RATE, CHANNELS, APPLICATION_VOIP);
+    // Application: VOIP (optimized for voice) unless configured otherwise
+    const application = options.application === 'audio' ? APPLICATION_AUDIO : APPLICATION_VOIP;
+    this.encoder = new OpusScript(SAMPLE_RATE, CHANNELS, application);
+
+    if (options.bitrate !== undefined) {
+      this.encoder.encoderCTL(OPUS_SET_BITRATE_REQUEST, options.bitrate);
+    }
+    if (options.complexity !== undefined) {
+      this.encoder.encoderCTL(OPUS_SET_COMPLEXITY_REQUEST, options.complexity);
+    }
+    if (options.fec !== undefined) {
+      this.encoder.encoderCTL(OPUS_SET_INBAND_FEC_REQUEST, options.fec ? 1 : 0);
+    }
+    if (options.packetLossPercent !== undefined) {
+      this.encoder.encoderCTL(OPUS_SET_PACKET_LOSS_PERC_REQUEST, options.packetLossPercent);
+    }
+    if (options.dtx !== undefined) {
+      this.encoder.encoderCTL(OPUS_SET_DTX_REQUEST, options.dtx ? 1 : 0);
+    }
+
+    this.frameSize = (SAMPLE_RATE * (options.frameDurationMs ?? 20)) / 1000;
 
     // Initialize Decoder
     this.decoder = new OpusScript(SAMPLE_RATE, CHANNELS);
   }
 
   /**
-   * Encode PCM Float32 audio to Opus
+   * Encode a single Opus frame
    * 
-   * @param pcm - Float32Array of audio samples
+   * @param pcm - Float32Array of audio samples; its length must be a legal Opus frame duration
    * @returns Buffer containing Opus encoded packet
    */
   encode(pcm: Float32Array): Buffer {
+    if (!isLegalFrameSize(pcm.length)) {
+      throw new Error(`Invalid Opus frame size: ${pcm.length} samples (${(pcm.length * 1000) / SAMPLE_RATE}ms)`);
+    }
+
     // OpusScript expects Int16 input (Buffer)
     const pcm16 = this.float32ToInt16(pcm);
     
@@ -55,6 +118,26 @@ export class OpusCodec {
     return this.encoder.encode(pcm16, pcm.length); 
   }
 
+  /**
+   * Encode a chunk of any whole number of frames (e.g. an 80ms PersonaPlex frame)
+   * 
+   * The chunk is split into frames of the configured duration, one packet each.
+   * 
+   * @param pcm - Float32Array of audio samples, a multiple of the frame size
+   * @returns Opus packets in order
+   */
+  encodeFrames(pcm: Float32Array): Buffer[] {
+    if (pcm.length % this.frameSize !== 0) {
+      throw new Error(`Chunk of ${pcm.length} samples is not a multiple of the ${this.frameSize}-sample Opus frame`);
+    }
+
+    const packets: Buffer[] = [];
+    for (let offset = 0; offset < pcm.length; offset += this.frameSize) {
+      packets.push(this.encode(pcm.subarray(offset, offset + this.frameSize)));
+    }
+    return packets;
+  }
+
   /**
    * Decode Opus packet to PCM Float32
    * 
@@ -95,6 +178,13 @@ export class OpusCodec {
     return float32;
   }
   
+  /**
+   * Samples per encoded frame
+   */
+  get samplesPerFrame(): number {
+    return this.frameSize;
+  }
+
   /**
    * Clean up resources
    */
@@ -103,3 +193,28 @@ export class OpusCodec {
       this.decoder.delete();
   }
 }
+
+/**
+ * Check whether a sample count is a single legal Opus frame at 24kHz
+ */
+function isLegalFrameSize(samples: number): boolean {
+  return OPUS_FRAME_DURATIONS_MS.some((ms) => (SAMPLE_RATE * ms) / 1000 === samples);
+}
+
+/**
+ * Validate encoder option ranges
+ */
+function validateOptions(options: OpusCodecOptions): void {
+  if (options.bitrate !== undefined && (options.bitrate < 500 || options.bitrate > 512000)) {
+    throw new Error(`Invalid Opus bitrate: ${options.bitrate} (expected 500 to 512000)`);
+  }
+  if (options.complexity !== undefined && (!Number.isInteger(options.complexity) || options.complexity < 0 || options.complexity > 10)) {
+    throw new Error(`Invalid Opus complexity: ${options.complexity} (expected an integer 0 to 10)`);
+  }
+  if (options.packetLossPercent !== undefined && (options.packetLossPercent < 0 || options.packetLossPercent > 100)) {
+    throw new Error(`Invalid Opus packet loss: ${options.packetLossPercent} (expected 0 to 100)`);
+  }
+  if (options.frameDurationMs !== undefined && !OPUS_FRAME_DURATIONS_MS.includes(options.frameDurationMs)) {
+    throw new Error(`Invalid Opus frame duration: ${options.frameDurationMs}ms`);
+  }
+}
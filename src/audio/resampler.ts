@@ -67,10 +67,171 @@ class LinearResampler implements Resampler {
 }
 
 /**
- * Create a resampler instance
+ * Resampler quality / CPU tradeoff
+ *
+ * - linear: interpolation only, no anti-aliasing (cheapest)
+ * - low / medium / high: windowed-sinc with increasingly long filters
  */
-export function createResampler(fromRate: number, toRate: number): Resampler {
-  return new LinearResampler(fromRate, toRate);
+export type ResamplerQuality = 'linear' | 'low' | 'medium' | 'high';
+
+/**
+ * Windowed-sinc filter settings per quality level
+ */
+const SINC_PRESETS: Record<Exclude<ResamplerQuality, 'linear'>, { zeroCrossings: number; kaiserBeta: number; rolloff: number }> = {
+  low: { zeroCrossings: 8, kaiserBeta: 5, rolloff: 0.85 },
+  medium: { zeroCrossings: 16, kaiserBeta: 7, rolloff: 0.9 },
+  high: { zeroCrossings: 32, kaiserBeta: 9, rolloff: 0.95 },
+};
+
+/**
+ * Polyphase windowed-sinc resampler
+ *
+ * Converts between rates with a rational ratio (up/down after reducing by the
+ * GCD, e.g. 24kHz -> 8kHz is 1/3). The Kaiser-windowed sinc low-pass is cut
+ * at the lower of the two Nyquist frequencies, so decimation does not alias.
+ * Input history is carried between calls, so chunk boundaries are seamless.
+ */
+export class SincResampler implements Resampler {
+  private readonly up: number;
+  private readonly down: number;
+  private readonly halfTaps: number;
+  private readonly phases: Float32Array[];
+  private history: Float32Array;
+  private phase: number = 0;
+
+  constructor(
+    private readonly fromRate: number,
+    private readonly toRate: number,
+    quality: Exclude<ResamplerQuality, 'linear'> = 'medium'
+  ) {
+    const divisor = gcd(fromRate, toRate);
+    this.up = toRate / divisor;
+    this.down = fromRate / divisor;
+
+    const { zeroCrossings, kaiserBeta, rolloff } = SINC_PRESETS[quality];
+
+    // Cutoff in cycles per input sample
+    const cutoff = 0.5 * Math.min(1, this.up / this.down) * rolloff;
+    this.halfTaps = Math.ceil(zeroCrossings / (2 * cutoff));
+    this.phases = buildPolyphaseFilters(this.up, this.halfTaps, cutoff, kaiserBeta);
+    this.history = new Float32Array(this.halfTaps - 1);
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) {
+      return input;
+    }
+
+    // History holds the samples before the next output's first tap
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const taps = this.halfTaps * 2;
+    const maxOutput = Math.ceil((buffer.length * this.up) / this.down) + 1;
+    const output = new Float32Array(maxOutput);
+
+    let base = this.halfTaps - 1;
+    let phase = this.phase;
+    let outputIndex = 0;
+
+    while (base + this.halfTaps < buffer.length) {
+      const coefficients = this.phases[phase]!;
+      const start = base - this.halfTaps + 1;
+
+      let sum = 0;
+      for (let j = 0; j < taps; j++) {
+        sum += buffer[start + j]! * coefficients[j]!;
+      }
+      output[outputIndex++] = sum;
+
+      phase += this.down;
+      base += Math.floor(phase / this.up);
+      phase %= this.up;
+    }
+
+    this.history = buffer.slice(base - this.halfTaps + 1);
+    this.phase = phase;
+
+    return output.slice(0, outputIndex);
+  }
+
+  reset(): void {
+    this.history = new Float32Array(this.halfTaps - 1);
+    this.phase = 0;
+  }
+}
+
+/**
+ * Build one normalized filter per output phase
+ */
+function buildPolyphaseFilters(up: number, halfTaps: number, cutoff: number, beta: number): Float32Array[] {
+  const phases: Float32Array[] = [];
+  const windowNorm = besselI0(beta);
+
+  for (let p = 0; p < up; p++) {
+    const coefficients = new Float32Array(halfTaps * 2);
+    let sum = 0;
+
+    for (let j = 0; j < coefficients.length; j++) {
+      // Distance (in input samples) between the output position and tap j
+      const t = p / up + halfTaps - 1 - j;
+      const x = t / halfTaps;
+      const window = Math.abs(x) <= 1 ? besselI0(beta * Math.sqrt(1 - x * x)) / windowNorm : 0;
+      const value = 2 * cutoff * sinc(2 * cutoff * t) * window;
+      coefficients[j] = value;
+      sum += value;
+    }
+
+    // Unity DC gain for every phase
+    for (let j = 0; j < coefficients.length; j++) {
+      coefficients[j] = coefficients[j]! / sum;
+    }
+    phases.push(coefficients);
+  }
+
+  return phases;
+}
+
+function sinc(x: number): number {
+  if (x === 0) {
+    return 1;
+  }
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+/**
+ * Zeroth-order modified Bessel function (for the Kaiser window)
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) {
+      break;
+    }
+  }
+  return sum;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Create a stateful resampler instance
+ *
+ * @param quality - Quality / CPU tradeoff (default: medium)
+ */
+export function createResampler(fromRate: number, toRate: number, quality: ResamplerQuality = 'medium'): Resampler {
+  if (quality === 'linear') {
+    return new LinearResampler(fromRate, toRate);
+  }
+  return new SincResampler(fromRate, toRate, quality);
 }
 
 /**
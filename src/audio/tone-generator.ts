@@ -0,0 +1,128 @@
+/**
+ * Tone Generation
+ *
+ * Synthesizes PCM Float32 tones at any sample rate: single or mixed sine
+ * tones, and DTMF digit sequences for dialing into IVRs in-band. Each tone
+ * fades in and out over a few ms so it starts and stops without clicks.
+ *
+ * To play digits on a Twilio call:
+ * ```typescript
+ * ws.send(twilioHandler.createAudioMessage(generateDtmf('1234#')));
+ * ```
+ */
+
+/** DTMF low-group frequencies in Hz, one per keypad row */
+export const DTMF_ROW_FREQUENCIES = [697, 770, 852, 941] as const;
+
+/** DTMF high-group frequencies in Hz, one per keypad column */
+export const DTMF_COLUMN_FREQUENCIES = [1209, 1336, 1477, 1633] as const;
+
+/** Keypad layout: DTMF_KEYPAD[row][column] */
+export const DTMF_KEYPAD = ['123A', '456B', '789C', '*0#D'] as const;
+
+/**
+ * Tone options
+ */
+export interface ToneOptions {
+  /** Sample rate of the generated PCM (default: 8000) */
+  sampleRate?: number;
+  /** Peak amplitude of each frequency, 0-1 (default: 0.3) */
+  amplitude?: number;
+  /** Fade-in and fade-out length (default: 5ms) */
+  rampMs?: number;
+}
+
+/**
+ * DTMF sequence options
+ */
+export interface DtmfToneOptions extends ToneOptions {
+  /** Length of each digit's tone (default: 100ms) */
+  toneMs?: number;
+  /** Silence after each digit (default: 100ms) */
+  gapMs?: number;
+  /** Silence for each `,` in the sequence (default: 500ms) */
+  pauseMs?: number;
+}
+
+/**
+ * Low and high frequencies (Hz) of a DTMF key
+ *
+ * @param digit - 0-9, *, #, or A-D
+ * @returns The key's row and column frequencies, or null if it is not a DTMF key
+ */
+export function dtmfFrequencies(digit: string): [low: number, high: number] | null {
+  const key = digit.toUpperCase();
+  if (key.length !== 1) {
+    return null;
+  }
+  for (let row = 0; row < DTMF_KEYPAD.length; row++) {
+    const column = DTMF_KEYPAD[row]!.indexOf(key);
+    if (column >= 0) {
+      return [DTMF_ROW_FREQUENCIES[row]!, DTMF_COLUMN_FREQUENCIES[column]!];
+    }
+  }
+  return null;
+}
+
+/**
+ * Generate a tone mixing one or more sine frequencies
+ *
+ * @param frequencies - Frequencies in Hz, each at `amplitude`
+ * @param durationMs - Tone length
+ * @returns PCM Float32 at `sampleRate`
+ */
+export function generateTone(frequencies: readonly number[], durationMs: number, options: ToneOptions = {}): Float32Array {
+  const sampleRate = options.sampleRate ?? 8000;
+  const amplitude = options.amplitude ?? 0.3;
+  const length = Math.max(0, Math.round(durationMs * sampleRate / 1000));
+  const ramp = Math.min(Math.round((options.rampMs ?? 5) * sampleRate / 1000), Math.floor(length / 2));
+  const pcm = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    let sample = 0;
+    for (const frequency of frequencies) {
+      sample += Math.sin(2 * Math.PI * frequency * i / sampleRate);
+    }
+    // Raised-cosine fade at both ends
+    const edge = Math.min(i, length - 1 - i);
+    const gain = edge < ramp ? 0.5 - 0.5 * Math.cos(Math.PI * edge / ramp) : 1;
+    pcm[i] = Math.max(-1, Math.min(1, amplitude * gain * sample));
+  }
+  return pcm;
+}
+
+/**
+ * Generate the DTMF tones for a digit sequence
+ *
+ * @param digits - Keys to dial (0-9, *, #, A-D); `,` inserts a pause
+ * @returns PCM Float32 at `sampleRate`, each digit followed by `gapMs` of silence
+ * @throws Error if the sequence contains anything else
+ */
+export function generateDtmf(digits: string, options: DtmfToneOptions = {}): Float32Array {
+  const sampleRate = options.sampleRate ?? 8000;
+  const toneMs = options.toneMs ?? 100;
+  const gapMs = options.gapMs ?? 100;
+  const pauseMs = options.pauseMs ?? 500;
+  const samples = (ms: number) => Math.round(ms * sampleRate / 1000);
+
+  const parts: Float32Array[] = [];
+  for (const digit of digits) {
+    if (digit === ',') {
+      parts.push(new Float32Array(samples(pauseMs)));
+      continue;
+    }
+    const frequencies = dtmfFrequencies(digit);
+    if (!frequencies) {
+      throw new Error(`Not a DTMF key: "${digit}"`);
+    }
+    parts.push(generateTone(frequencies, toneMs, options), new Float32Array(samples(gapMs)));
+  }
+
+  const pcm = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    pcm.set(part, offset);
+    offset += part.length;
+  }
+  return pcm;
+}
@@ -0,0 +1,304 @@
+/**
+ * Streaming Voice Activity Detection
+ *
+ * Classifies 20ms frames of caller PCM as speech or non-speech using:
+ * - Energy relative to an adaptive noise floor
+ * - Spectral flatness (noise is spectrally flat, voiced speech is peaky)
+ * - Zero-crossing rate (rejects hiss and very low-frequency hum)
+ *
+ * Frame decisions are smoothed: speech must persist for `minSpeechMs` to
+ * start a segment, and silence must persist for `hangoverMs` to end it.
+ * Timestamps are stream time in ms, counted from the samples processed.
+ */
+
+import { EventEmitter } from 'events';
+import { rmsDbfs } from './barge-in.js';
+
+const FRAME_MS = 20;
+/** Speech band used for spectral features */
+const BAND_LOW_HZ = 100;
+const BAND_HIGH_HZ = 3800;
+
+/**
+ * VAD tuning options
+ */
+export interface VadOptions {
+  /** Sample rate of the input PCM (default: 8000) */
+  sampleRate?: number;
+  /** Sensitivity from 0 (least) to 1 (most sensitive) (default: 0.5) */
+  sensitivity?: number;
+  /** Speech must last this long before speechStart fires (default: 100ms) */
+  minSpeechMs?: number;
+  /** Silence must last this long before speechEnd fires (default: 400ms) */
+  hangoverMs?: number;
+  /** Frames with spectral flatness above this are treated as noise (default: 0.45) */
+  maxSpectralFlatness?: number;
+  /** Absolute energy below which a frame is never speech (default: -55 dBFS) */
+  minEnergyDb?: number;
+}
+
+/**
+ * Features computed for one analysis frame
+ */
+export interface VadFrame {
+  /** Frame start in stream time (ms) */
+  timestamp: number;
+  /** Frame energy in dBFS */
+  energyDb: number;
+  /** Current noise floor estimate in dBFS */
+  noiseFloorDb: number;
+  /** Spectral flatness in the speech band (0 = tonal, 1 = white noise) */
+  spectralFlatness: number;
+  /** Zero crossings per sample */
+  zeroCrossingRate: number;
+  /** Raw (unsmoothed) speech decision */
+  speech: boolean;
+}
+
+/**
+ * VAD events
+ */
+export interface VadEvents {
+  /** Caller started speaking */
+  speechStart: [timestamp: number];
+  /** Caller stopped speaking */
+  speechEnd: [timestamp: number, durationMs: number];
+  /** Per-frame features (for debugging and analytics) */
+  frame: [frame: VadFrame];
+}
+
+/**
+ * Streaming voice activity detector
+ *
+ * @example
+ * ```typescript
+ * const vad = new VoiceActivityDetector({ sampleRate: 8000 });
+ *
+ * vad.on('speechStart', (ts) => console.log('Caller speaking at', ts));
+ * vad.on('speechEnd', (ts, duration) => console.log('Caller paused after', duration, 'ms'));
+ *
+ * twilioHandler.on('audio', (pcm) => vad.process(pcm));
+ * ```
+ */
+export class VoiceActivityDetector extends EventEmitter<VadEvents> {
+  private readonly sampleRate: number;
+  private readonly frameSize: number;
+  private readonly fftSize: number;
+  private readonly marginDb: number;
+  private readonly minSpeechFrames: number;
+  private readonly hangoverFrames: number;
+  private readonly maxSpectralFlatness: number;
+  private readonly minEnergyDb: number;
+  private readonly pending: Float32Array;
+  private pendingLength: number = 0;
+  private samplesProcessed: number = 0;
+  private noiseFloorDb: number = -60;
+  private speechRun: number = 0;
+  private silenceRun: number = 0;
+  private inSpeech: boolean = false;
+  private speechStartedAt: number = 0;
+
+  constructor(options: VadOptions = {}) {
+    super();
+    const sensitivity = Math.max(0, Math.min(1, options.sensitivity ?? 0.5));
+
+    this.sampleRate = options.sampleRate ?? 8000;
+    this.frameSize = Math.round((this.sampleRate * FRAME_MS) / 1000);
+    this.fftSize = nextPowerOfTwo(this.frameSize);
+    // More sensitive = smaller margin above the noise floor
+    this.marginDb = 18 - 12 * sensitivity;
+    this.minSpeechFrames = Math.max(1, Math.round((options.minSpeechMs ?? 100) / FRAME_MS));
+    this.hangoverFrames = Math.max(1, Math.round((options.hangoverMs ?? 400) / FRAME_MS));
+    this.maxSpectralFlatness = options.maxSpectralFlatness ?? 0.45;
+    this.minEnergyDb = options.minEnergyDb ?? -55;
+    this.pending = new Float32Array(this.frameSize);
+  }
+
+  /**
+   * Feed PCM audio (any chunk size)
+   */
+  process(pcm: Float32Array): void {
+    let offset = 0;
+    while (offset < pcm.length) {
+      const count = Math.min(this.frameSize - this.pendingLength, pcm.length - offset);
+      this.pending.set(pcm.subarray(offset, offset + count), this.pendingLength);
+      this.pendingLength += count;
+      offset += count;
+
+      if (this.pendingLength === this.frameSize) {
+        this.processFrame(this.pending);
+        this.pendingLength = 0;
+      }
+    }
+  }
+
+  /**
+   * Check whether the caller is currently speaking
+   */
+  get speaking(): boolean {
+    return this.inSpeech;
+  }
+
+  /**
+   * Current stream time in ms
+   */
+  get currentTime(): number {
+    return (this.samplesProcessed / this.sampleRate) * 1000;
+  }
+
+  /**
+   * Reset detector state (ends any open segment without an event)
+   */
+  reset(): void {
+    this.pendingLength = 0;
+    this.samplesProcessed = 0;
+    this.noiseFloorDb = -60;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+    this.inSpeech = false;
+    this.speechStartedAt = 0;
+  }
+
+  /**
+   * Classify one frame and update smoothed state
+   */
+  private processFrame(frame: Float32Array): void {
+    const timestamp = this.currentTime;
+    this.samplesProcessed += frame.length;
+
+    const energyDb = Math.max(rmsDbfs(frame), -100);
+    const zeroCrossingRate = countZeroCrossings(frame) / frame.length;
+    const spectralFlatness = this.spectralFlatness(frame);
+
+    const loudEnough = energyDb > this.minEnergyDb && energyDb > this.noiseFloorDb + this.marginDb;
+    // Very loud frames count as speech even when noisy (e.g. fricatives, shouting)
+    const speechLike = spectralFlatness < this.maxSpectralFlatness || energyDb > this.noiseFloorDb + 3 * this.marginDb;
+    const speech = loudEnough && speechLike && zeroCrossingRate > 0.01 && zeroCrossingRate < 0.6;
+
+    this.updateNoiseFloor(energyDb, speech);
+    this.emit('frame', {
+      timestamp,
+      energyDb,
+      noiseFloorDb: this.noiseFloorDb,
+      spectralFlatness,
+      zeroCrossingRate,
+      speech,
+    });
+
+    if (speech) {
+      this.speechRun++;
+      this.silenceRun = 0;
+    } else {
+      this.silenceRun++;
+      this.speechRun = 0;
+    }
+
+    if (!this.inSpeech && this.speechRun >= this.minSpeechFrames) {
+      this.inSpeech = true;
+      // Speech began at the first frame of the run
+      this.speechStartedAt = timestamp - (this.speechRun - 1) * FRAME_MS;
+      this.emit('speechStart', this.speechStartedAt);
+    } else if (this.inSpeech && this.silenceRun >= this.hangoverFrames) {
+      this.inSpeech = false;
+      const endedAt = timestamp - (this.silenceRun - 1) * FRAME_MS;
+      this.emit('speechEnd', endedAt, endedAt - this.speechStartedAt);
+    }
+  }
+
+  /**
+   * Track the background level: fall fast, rise slowly and only on non-speech
+   */
+  private updateNoiseFloor(energyDb: number, speech: boolean): void {
+    if (energyDb < this.noiseFloorDb) {
+      this.noiseFloorDb = 0.7 * this.noiseFloorDb + 0.3 * energyDb;
+    } else if (!speech) {
+      this.noiseFloorDb = 0.98 * this.noiseFloorDb + 0.02 * energyDb;
+    }
+    this.noiseFloorDb = Math.max(this.noiseFloorDb, -90);
+  }
+
+  /**
+   * Spectral flatness of the speech band (geometric / arithmetic mean of power)
+   */
+  private spectralFlatness(frame: Float32Array): number {
+    const re = new Float64Array(this.fftSize);
+    const im = new Float64Array(this.fftSize);
+    for (let i = 0; i < frame.length; i++) {
+      // Hann window reduces leakage between bins
+      re[i] = frame[i]! * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frame.length - 1)));
+    }
+    fft(re, im);
+
+    const binHz = this.sampleRate / this.fftSize;
+    const low = Math.max(1, Math.floor(BAND_LOW_HZ / binHz));
+    const high = Math.min(this.fftSize / 2, Math.ceil(Math.min(BAND_HIGH_HZ, this.sampleRate / 2) / binHz));
+
+    let logSum = 0;
+    let sum = 0;
+    let bins = 0;
+    for (let k = low; k < high; k++) {
+      const power = re[k]! * re[k]! + im[k]! * im[k]! + 1e-12;
+      logSum += Math.log(power);
+      sum += power;
+      bins++;
+    }
+
+    return bins === 0 ? 1 : Math.exp(logSum / bins) / (sum / bins);
+  }
+}
+
+function countZeroCrossings(frame: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1]! >= 0) !== (frame[i]! >= 0)) {
+      crossings++;
+    }
+  }
+  return crossings;
+}
+
+function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) {
+    size <<= 1;
+  }
+  return size;
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b]! * cos - im[b]! * sin;
+        const tim = re[b]! * sin + im[b]! * cos;
+        re[b] = re[a]! - tre;
+        im[b] = im[a]! - tim;
+        re[a] = re[a]! + tre;
+        im[a] = im[a]! + tim;
+      }
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * WAV file decoding and encoding
+ *
+ * Reads RIFF/WAVE files (PCM 8/16/24/32-bit, 32-bit float or mu-law) into
+ * mono PCM Float32, e.g. for hold music and prompts played to callers, and
+ * writes 16-bit PCM files (e.g., call recordings).
+ */
+
+import { readFile } from 'fs/promises';
+import { mulawToPcm } from './converter.js';
+import { createResampler } from './resampler.js';
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_MULAW = 7;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Decoded WAV audio
+ */
+export interface WavAudio {
+  /** Sample rate of the file */
+  sampleRate: number;
+  /** Channels in the file (samples are mixed down to mono) */
+  channels: number;
+  /** Mono PCM Float32 samples in range [-1, 1] */
+  samples: Float32Array;
+}
+
+/**
+ * Decode a WAV file, mixing all channels down to mono
+ *
+ * @throws Error if the data is not a supported WAV file
+ */
+export function decodeWav(data: Buffer): WavAudio {
+  if (data.length < 12 || data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let payload: Buffer | null = null;
+
+  // Walk the chunks; each is padded to an even length
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = data.toString('ascii', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const body = data.subarray(offset + 8, Math.min(offset + 8 + size, data.length));
+
+    if (id === 'fmt ' && body.length >= 16) {
+      let audioFormat = body.readUInt16LE(0);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && body.length >= 26) {
+        // The sub-format GUID starts with the actual format code
+        audioFormat = body.readUInt16LE(24);
+      }
+      format = {
+        audioFormat,
+        channels: body.readUInt16LE(2),
+        sampleRate: body.readUInt32LE(4),
+        bitsPerSample: body.readUInt16LE(14),
+      };
+    } else if (id === 'data') {
+      payload = body;
+    }
+
+    offset += 8 + size + (size % 2);
+  }
+
+  if (!format || !payload) {
+    throw new Error('WAV file has no fmt or data chunk');
+  }
+  if (format.channels < 1 || format.sampleRate < 1) {
+    throw new Error('WAV file has an invalid fmt chunk');
+  }
+
+  const interleaved = decodeSamples(payload, format.audioFormat, format.bitsPerSample);
+  const frames = Math.floor(interleaved.length / format.channels);
+  const samples = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let channel = 0; channel < format.channels; channel++) {
+      sum += interleaved[i * format.channels + channel]!;
+    }
+    samples[i] = sum / format.channels;
+  }
+
+  return { sampleRate: format.sampleRate, channels: format.channels, samples };
+}
+
+/**
+ * Read a WAV file as mono PCM Float32 at the given sample rate
+ *
+ * @throws Error if the file cannot be read or is not a supported WAV file
+ */
+export async function loadWavFile(filePath: string, sampleRate: number): Promise<Float32Array> {
+  const wav = decodeWav(await readFile(filePath));
+  if (wav.sampleRate === sampleRate) {
+    return wav.samples;
+  }
+
+  // Pad with silence so the filter delay does not cut off the end
+  const padded = new Float32Array(wav.samples.length + Math.ceil(wav.sampleRate / 50));
+  padded.set(wav.samples);
+  return createResampler(wav.sampleRate, sampleRate, 'high').process(padded);
+}
+
+/** Size in bytes of the header written by createWavHeader */
+export const WAV_HEADER_SIZE = 44;
+
+/**
+ * Create the header of a 16-bit PCM WAV file
+ *
+ * @param sampleRate - Samples per second per channel
+ * @param channels - Interleaved channels in the data
+ * @param dataBytes - Size of the sample data that follows the header
+ */
+export function createWavHeader(sampleRate: number, channels: number, dataBytes: number): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+  const blockAlign = channels * 2;
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+/**
+ * Interleave channels of PCM Float32 into 16-bit little-endian PCM
+ *
+ * Channels must have the same length; samples are clipped to [-1, 1].
+ */
+export function encodePcm16(channels: Float32Array[]): Buffer {
+  const frames = channels[0]?.length ?? 0;
+  const output = Buffer.alloc(frames * channels.length * 2);
+  let offset = 0;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i] ?? 0));
+      output.writeInt16LE(Math.round(sample < 0 ? sample * 32768 : sample * 32767), offset);
+      offset += 2;
+    }
+  }
+  return output;
+}
+
+/**
+ * Decode interleaved samples of one encoding to Float32
+ */
+function decodeSamples(payload: Buffer, audioFormat: number, bitsPerSample: number): Float32Array {
+  if (audioFormat === WAVE_FORMAT_MULAW && bitsPerSample === 8) {
+    return mulawToPcm(payload);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const count = Math.floor(payload.length / bytesPerSample);
+  const samples = new Float32Array(count);
+
+  if (audioFormat === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+    for (let i = 0; i < count; i++) samples[i] = payload.readFloatLE(i * 4);
+    return samples;
+  }
+
+  if (audioFormat !== WAVE_FORMAT_PCM) {
+    throw new Error(`Unsupported WAV format ${audioFormat}`);
+  }
+
+  switch (bitsPerSample) {
+    case 8: // Unsigned
+      for (let i = 0; i < count; i++) samples[i] = (payload[i]! - 128) / 128;
+      break;
+    case 16:
+      for (let i = 0; i < count; i++) samples[i] = payload.readInt16LE(i * 2) / 32768;
+      break;
+    case 24:
+      for (let i = 0; i < count; i++) samples[i] = payload.readIntLE(i * 3, 3) / 8388608;
+      break;
+    case 32:
+      for (let i = 0; i < count; i++) samples[i] = payload.readInt32LE(i * 4) / 2147483648;
+      break;
+    default:
+      throw new Error(`Unsupported WAV bit depth ${bitsPerSample}`);
+  }
+  return samples;
+}
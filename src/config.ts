@@ -1,5 +1,9 @@
 import { config } from 'dotenv';
 import { resolve } from 'path';
+import type { ResamplerQuality } from './audio/resampler.js';
+import { OPUS_FRAME_DURATIONS_MS, type OpusCodecOptions, type OpusFrameDuration } from './audio/opus.js';
+import { validateTriggerDefinitions, type TriggerDefinition } from './triggers/trigger-engine.js';
+import { validateDtmfMenu, type DtmfMenuDefinition } from './dtmf/menu.js';
 
 // Load .env file
 config({ path: resolve(process.cwd(), '.env') });
@@ -14,8 +18,109 @@ export interface PersonaPlexConfig {
   voicePrompt: string;
   /** Text prompt for the AI persona/role */
   textPrompt: string;
+  /** Sampling parameters (server defaults are used for any omitted value) */
+  sampling?: PersonaPlexSamplingParams;
+  /** Backends to balance sessions across (when set, `url` is not used for sessions) */
+  backends?: PersonaPlexBackendConfig[];
 }
 
+/**
+ * A PersonaPlex backend in a multi-server setup
+ */
+export interface PersonaPlexBackendConfig {
+  /** WebSocket URL of the backend */
+  url: string;
+  /** Maximum concurrent sessions (default: sessions.maxConcurrent) */
+  capacity?: number;
+}
+
+/**
+ * PersonaPlex sampling parameters, sent as query parameters on connect
+ */
+export interface PersonaPlexSamplingParams {
+  /** Text token temperature (0-2) */
+  textTemperature?: number;
+  /** Text token top-k (integer, >= 1) */
+  textTopk?: number;
+  /** Audio token temperature (0-2) */
+  audioTemperature?: number;
+  /** Audio token top-k (integer, >= 1) */
+  audioTopk?: number;
+  /** Padding multiplier (-4 to 4) */
+  padMult?: number;
+  /** Repetition penalty (1-2, 1 disables it) */
+  repetitionPenalty?: number;
+  /** Number of past tokens the repetition penalty looks at (integer, >= 0) */
+  repetitionPenaltyContext?: number;
+  /** Text sampling seed (integer, -1 for random). Pin for reproducible calls. */
+  textSeed?: number;
+  /** Audio sampling seed (integer, -1 for random). Pin for reproducible calls. */
+  audioSeed?: number;
+}
+
+/**
+ * A named persona: PersonaPlex settings that override the global ones for a call
+ */
+export interface PersonaDefinition {
+  /** Display name (default: the persona id) */
+  name?: string;
+  /** Voice prompt file name (default: personaplex.voicePrompt) */
+  voicePrompt?: string;
+  /** Text prompt for the persona's role (default: personaplex.textPrompt) */
+  textPrompt?: string;
+  /** Sampling overrides, merged over personaplex.sampling */
+  sampling?: PersonaPlexSamplingParams;
+  /** Message spoken before the stream connects (default: the generic welcome) */
+  greeting?: string;
+  /** Limits for calls using this persona */
+  limits?: PersonaLimits;
+  /** Record calls using this persona (default: recording.enabled) */
+  record?: boolean;
+  /** Phrases that make the bot act (e.g., transfer), added to the global triggers */
+  triggers?: TriggerDefinition[];
+}
+
+/**
+ * Per-persona call limits (unset values fall back to the global settings)
+ */
+export interface PersonaLimits {
+  /** Maximum concurrent calls using this persona */
+  maxConcurrent?: number;
+  /** Maximum call duration in ms */
+  maxCallDurationMs?: number;
+  /** Caller silence timeout in ms */
+  callerSilenceMs?: number;
+}
+
+/**
+ * Per-call persona selection
+ */
+export interface PersonasConfig {
+  /** Personas by name */
+  definitions: Record<string, PersonaDefinition>;
+  /** Dialed number (E.164) to persona name */
+  numbers: Record<string, string>;
+  /** Persona used when nothing else selects one (default: global prompts) */
+  defaultPersona?: string;
+  /** Directory of YAML/JSON persona files, hot-reloaded on change */
+  directory?: string;
+}
+
+/**
+ * Allowed range for each sampling parameter
+ */
+const SAMPLING_LIMITS: Record<keyof PersonaPlexSamplingParams, { min: number; max: number; integer: boolean }> = {
+  textTemperature: { min: 0, max: 2, integer: false },
+  textTopk: { min: 1, max: Number.MAX_SAFE_INTEGER, integer: true },
+  audioTemperature: { min: 0, max: 2, integer: false },
+  audioTopk: { min: 1, max: Number.MAX_SAFE_INTEGER, integer: true },
+  padMult: { min: -4, max: 4, integer: false },
+  repetitionPenalty: { min: 1, max: 2, integer: false },
+  repetitionPenaltyContext: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+  textSeed: { min: -1, max: 2 ** 31 - 1, integer: true },
+  audioSeed: { min: -1, max: 2 ** 31 - 1, integer: true },
+};
+
 /**
  * Configuration for Twilio integration
  */
@@ -24,6 +129,8 @@ export interface TwilioConfig {
   accountSid: string;
   /** Twilio Auth Token */
   authToken: string;
+  /** Default caller ID for outbound calls (E.164, e.g., +15551234567) */
+  phoneNumber?: string;
 }
 
 /**
@@ -34,6 +141,141 @@ export interface ServerConfig {
   port: number;
   /** Server host */
   host: string;
+  /** Public base URL Twilio reaches the server at (e.g., https://abc.ngrok.app); derived from headers when unset */
+  publicUrl?: string;
+  /** Reject Twilio webhooks without a valid X-Twilio-Signature; disable only for local development (default: true) */
+  validateTwilioSignature?: boolean;
+  /** Bearer token the call control API (/calls) requires; the API rejects every request when unset */
+  apiToken?: string;
+}
+
+/**
+ * Configuration for audio processing
+ */
+export interface AudioConfig {
+  /** Resampler quality / CPU tradeoff (linear, low, medium, high) */
+  resamplerQuality: ResamplerQuality;
+  /** Opus encoder settings for audio sent to PersonaPlex */
+  opus?: OpusCodecOptions;
+}
+
+/**
+ * Configuration for session concurrency and caller queueing
+ */
+export interface SessionConfig {
+  /** Maximum concurrent calls per PersonaPlex backend */
+  maxConcurrent: number;
+  /** What to do with callers when all slots are busy: play a hold loop or reject */
+  whenFull: 'hold' | 'reject';
+  /** Maximum number of callers on hold */
+  maxQueueSize: number;
+  /** Message spoken before hanging up on rejected callers */
+  rejectMessage: string;
+  /** WAV file looped to callers on hold and while PersonaPlex connects (default: soft chime) */
+  holdAudioFile?: string;
+  /** Message spoken before hanging up when PersonaPlex cannot be reached */
+  connectFailureMessage: string;
+}
+
+/**
+ * Configuration for ending idle or overlong calls (0 disables a timeout)
+ */
+export interface TimeoutConfig {
+  /** End the call after this long without caller speech in ms */
+  callerSilenceMs: number;
+  /** End the call after this long without bot speech or text in ms */
+  botSilenceMs: number;
+  /** End the call after this total duration in ms */
+  maxCallDurationMs: number;
+  /** Message spoken before hanging up on a timed-out call (empty to hang up silently) */
+  closingPrompt: string;
+}
+
+/**
+ * Configuration for reconnecting to PersonaPlex mid-call
+ */
+export interface ResilienceConfig {
+  /** Reconnect when PersonaPlex drops mid-call instead of ending the session */
+  enabled: boolean;
+  /** Reconnect attempts before giving up */
+  maxAttempts: number;
+  /** Delay before each attempt in ms, multiplied by the attempt number */
+  retryDelayMs: number;
+  /** Longest recap of the bot's words (in characters) added to the resumed text prompt, 0 for none */
+  recapMaxChars: number;
+  /** WAV file played to the caller while reconnecting (default: the hold audio) */
+  fillerAudioFile?: string;
+}
+
+/**
+ * Configuration for transferring calls to human agents
+ */
+export interface TransferConfig {
+  /** Said to the caller before dialing (empty for none) */
+  message: string;
+  /** Seconds to ring the agent before giving up */
+  timeoutSeconds: number;
+  /** Whisper a summary of the conversation to the agent before connecting */
+  whisper: boolean;
+}
+
+/**
+ * Configuration for caller keypad (DTMF) input
+ */
+export interface DtmfConfig {
+  /** Pause after a keypress that ends an entry */
+  interDigitTimeoutMs: number;
+  /** Keys that end an entry */
+  terminators: string;
+  /** End an entry after this many digits (0 for no limit) */
+  maxDigits: number;
+  /** Add digits the caller enters mid-call to the conversation (reconnects PersonaPlex with the new prompt) */
+  injectDigits: boolean;
+  /** Also detect keypad tones in the caller's audio, for carriers that send keypresses in-band */
+  inbandDetection: boolean;
+  /** Keypad menu answered before the AI conversation starts on inbound calls (optional) */
+  menu?: DtmfMenuDefinition;
+}
+
+/**
+ * Configuration for trigger notifications
+ */
+export interface NotificationConfig {
+  /** SMS sender (default: twilio.phoneNumber); SMS notifications are off without one */
+  smsFrom?: string;
+  /** SMS recipient for notify actions that do not name one */
+  smsTo?: string;
+}
+
+/**
+ * Configuration for recording calls to WAV files
+ */
+export interface RecordingConfig {
+  /** Record calls (personas and individual calls can override this) */
+  enabled: boolean;
+  /** Directory for recordings and their metadata sidecars */
+  directory: string;
+  /** Sample rate of the stereo WAV files */
+  sampleRate: RecordingSampleRate;
+  /** Delete recordings older than this many days (0 keeps them forever) */
+  retentionDays: number;
+  /** Delete the oldest recordings once the directory grows past this many MB (0 for no limit) */
+  maxTotalMb: number;
+}
+
+/** Supported recording sample rates: telephone audio or PersonaPlex's native rate */
+export type RecordingSampleRate = 8000 | 24000;
+
+/**
+ * Configuration for pre-connected PersonaPlex conversations
+ */
+export interface WarmPoolConfig {
+  /** Idle connections to keep per warmed persona (0 disables the pool) */
+  size: number;
+  /** Personas to keep warm (default: the default persona, else the global prompts) */
+  personas: string[];
+  /** Interval between keepalive pings and refills in ms */
+  keepaliveIntervalMs: number;
 }
 
 /**
@@ -46,6 +288,28 @@ export interface VoiceBotConfig {
   twilio?: TwilioConfig;
   /** Bridge server settings */
   server: ServerConfig;
+  /** Audio processing settings (optional) */
+  audio?: AudioConfig;
+  /** Session concurrency settings (optional, defaults to one call at a time) */
+  sessions?: SessionConfig;
+  /** Per-call personas (optional, every call uses the global prompts when unset) */
+  personas?: PersonasConfig;
+  /** Warm connection pool (optional, disabled when unset) */
+  warmPool?: WarmPoolConfig;
+  /** Inactivity and call duration timeouts (optional, disabled when unset) */
+  timeouts?: TimeoutConfig;
+  /** Mid-call reconnection (optional, disabled when unset) */
+  resilience?: ResilienceConfig;
+  /** Call recording (optional, disabled when unset) */
+  recording?: RecordingConfig;
+  /** Call transfer settings (optional, Twilio defaults and no message when unset) */
+  transfer?: TransferConfig;
+  /** Phrases in the bot's speech that run actions, for every call (optional) */
+  triggers?: TriggerDefinition[];
+  /** Where trigger notifications go (optional, no SMS when unset) */
+  notifications?: NotificationConfig;
+  /** Caller keypad input (optional, defaults apply when unset) */
+  dtmf?: DtmfConfig;
   /** Log level */
   logLevel: 'debug' | 'info' | 'warn' | 'error';
 }
@@ -59,16 +323,104 @@ export function loadConfig(): VoiceBotConfig {
       url: process.env['PERSONAPLEX_URL'] ?? 'wss://localhost:8998/api/chat',
       voicePrompt: process.env['PERSONAPLEX_VOICE_PROMPT'] ?? 'NATF2.pt',
       textPrompt: process.env['PERSONAPLEX_TEXT_PROMPT'] ?? 'You enjoy having a good conversation.',
+      sampling: validateSamplingParams({
+        textTemperature: parseNumberEnv('PERSONAPLEX_TEXT_TEMPERATURE'),
+        textTopk: parseNumberEnv('PERSONAPLEX_TEXT_TOPK'),
+        audioTemperature: parseNumberEnv('PERSONAPLEX_AUDIO_TEMPERATURE'),
+        audioTopk: parseNumberEnv('PERSONAPLEX_AUDIO_TOPK'),
+        padMult: parseNumberEnv('PERSONAPLEX_PAD_MULT'),
+        repetitionPenalty: parseNumberEnv('PERSONAPLEX_REPETITION_PENALTY'),
+        repetitionPenaltyContext: parseNumberEnv('PERSONAPLEX_REPETITION_PENALTY_CONTEXT'),
+        textSeed: parseNumberEnv('PERSONAPLEX_TEXT_SEED'),
+        audioSeed: parseNumberEnv('PERSONAPLEX_AUDIO_SEED'),
+      }),
+      backends: parseBackendsEnv(process.env['PERSONAPLEX_BACKENDS']),
+    },
+    personas: {
+      definitions: parsePersonasEnv(process.env['PERSONAS']),
+      numbers: parsePersonaNumbersEnv(process.env['PERSONA_NUMBERS']),
+      defaultPersona: process.env['DEFAULT_PERSONA'] || undefined,
+      directory: process.env['PERSONAS_DIR'] || undefined,
+    },
+    warmPool: {
+      size: parseIntegerEnv('WARM_POOL_SIZE', 0),
+      personas: (process.env['WARM_POOL_PERSONAS'] ?? '').split(',').map((id) => id.trim()).filter(Boolean),
+      keepaliveIntervalMs: parseIntegerEnv('WARM_POOL_KEEPALIVE_MS', 15000),
+    },
+    timeouts: {
+      callerSilenceMs: parseIntegerEnv('CALLER_SILENCE_TIMEOUT_MS', 0),
+      botSilenceMs: parseIntegerEnv('BOT_SILENCE_TIMEOUT_MS', 0),
+      maxCallDurationMs: parseIntegerEnv('MAX_CALL_DURATION_MS', 0),
+      closingPrompt: process.env['TIMEOUT_CLOSING_PROMPT']
+        ?? 'It seems we lost each other, so I will end the call now. Goodbye.',
+    },
+    resilience: {
+      enabled: parseBooleanEnv('SESSION_RESILIENT') ?? false,
+      maxAttempts: parseIntegerEnv('SESSION_RECONNECT_ATTEMPTS', 3),
+      retryDelayMs: parseIntegerEnv('SESSION_RECONNECT_DELAY_MS', 1000),
+      recapMaxChars: parseIntegerEnv('SESSION_RECAP_MAX_CHARS', 1500),
+      fillerAudioFile: process.env['RECONNECT_FILLER_FILE'] || undefined,
+    },
+    recording: {
+      enabled: parseBooleanEnv('RECORDING_ENABLED') ?? false,
+      directory: process.env['RECORDING_DIR'] || './recordings',
+      sampleRate: parseRecordingSampleRate(process.env['RECORDING_SAMPLE_RATE']),
+      retentionDays: parseIntegerEnv('RECORDING_RETENTION_DAYS', 30),
+      maxTotalMb: parseIntegerEnv('RECORDING_MAX_TOTAL_MB', 0),
+    },
+    transfer: {
+      message: process.env['TRANSFER_MESSAGE'] ?? 'Please hold while I transfer you to an agent.',
+      timeoutSeconds: parseIntegerEnv('TRANSFER_TIMEOUT_SECONDS', 30),
+      whisper: parseBooleanEnv('TRANSFER_WHISPER') ?? true,
+    },
+    triggers: parseTriggersEnv(process.env['TRIGGERS']),
+    notifications: {
+      smsFrom: process.env['NOTIFY_SMS_FROM'] || undefined,
+      smsTo: process.env['NOTIFY_SMS_TO'] || undefined,
+    },
+    dtmf: {
+      interDigitTimeoutMs: parseIntegerEnv('DTMF_INTER_DIGIT_TIMEOUT_MS', 3000),
+      terminators: process.env['DTMF_TERMINATORS'] ?? '#',
+      maxDigits: parseIntegerEnv('DTMF_MAX_DIGITS', 0),
+      injectDigits: parseBooleanEnv('DTMF_INJECT_DIGITS') ?? false,
+      inbandDetection: parseBooleanEnv('DTMF_INBAND_DETECTION') ?? false,
+      menu: parseDtmfMenuEnv(process.env['DTMF_MENU']),
     },
     twilio: process.env['TWILIO_ACCOUNT_SID'] && process.env['TWILIO_AUTH_TOKEN']
       ? {
           accountSid: process.env['TWILIO_ACCOUNT_SID'],
           authToken: process.env['TWILIO_AUTH_TOKEN'],
+          phoneNumber: process.env['TWILIO_PHONE_NUMBER'] || undefined,
         }
       : undefined,
     server: {
-      port: parseInt(process.env['SERVER_PORT'] ?? '3000', 10),
+      port: parseIntegerEnv('SERVER_PORT', 3000),
       host: process.env['SERVER_HOST'] ?? '0.0.0.0',
+      publicUrl: process.env['PUBLIC_URL'] || undefined,
+      validateTwilioSignature: parseBooleanEnv('TWILIO_VALIDATE_SIGNATURE') ?? true,
+      apiToken: process.env['API_TOKEN'] || undefined,
+    },
+    audio: {
+      resamplerQuality: parseResamplerQuality(process.env['AUDIO_RESAMPLER_QUALITY']),
+      opus: {
+        bitrate: parseNumberEnv('OPUS_BITRATE'),
+        complexity: parseNumberEnv('OPUS_COMPLEXITY'),
+        fec: parseBooleanEnv('OPUS_FEC'),
+        dtx: parseBooleanEnv('OPUS_DTX'),
+        packetLossPercent: parseNumberEnv('OPUS_PACKET_LOSS_PERCENT'),
+        frameDurationMs: parseOpusFrameDuration(process.env['OPUS_FRAME_MS']),
+      },
+    },
+    sessions: {
+      // 0 would queue every call forever
+      maxConcurrent: parseIntegerEnv('PERSONAPLEX_MAX_SESSIONS', 1, 1),
+      whenFull: parseWhenFull(process.env['SESSION_WHEN_FULL']),
+      maxQueueSize: parseIntegerEnv('SESSION_MAX_QUEUE', 10),
+      rejectMessage: process.env['SESSION_REJECT_MESSAGE']
+        ?? 'All of our agents are busy right now. Please call again later.',
+      holdAudioFile: process.env['HOLD_AUDIO_FILE'] || undefined,
+      connectFailureMessage: process.env['SESSION_CONNECT_FAILURE_MESSAGE']
+        ?? 'Sorry, our assistant is unavailable right now. Please try again later.',
     },
     logLevel: (process.env['LOG_LEVEL'] as VoiceBotConfig['logLevel']) ?? 'info',
   };
@@ -85,11 +437,380 @@ export function createConfig(partial: Partial<VoiceBotConfig>): VoiceBotConfig {
     personaplex: {
       ...defaults.personaplex,
       ...partial.personaplex,
+      sampling: validateSamplingParams({
+        ...defaults.personaplex.sampling,
+        ...partial.personaplex?.sampling,
+      }),
     },
     server: {
       ...defaults.server,
       ...partial.server,
     },
+    audio: {
+      ...defaults.audio!,
+      ...partial.audio,
+      opus: {
+        ...defaults.audio?.opus,
+        ...partial.audio?.opus,
+      },
+    },
+    sessions: {
+      ...defaults.sessions!,
+      ...partial.sessions,
+    },
+    personas: {
+      ...defaults.personas!,
+      ...partial.personas,
+    },
+    warmPool: {
+      ...defaults.warmPool!,
+      ...partial.warmPool,
+    },
+    timeouts: {
+      ...defaults.timeouts!,
+      ...partial.timeouts,
+    },
+    resilience: {
+      ...defaults.resilience!,
+      ...partial.resilience,
+    },
+    recording: {
+      ...defaults.recording!,
+      ...partial.recording,
+    },
+    transfer: {
+      ...defaults.transfer!,
+      ...partial.transfer,
+    },
+    notifications: {
+      ...defaults.notifications,
+      ...partial.notifications,
+    },
+    dtmf: {
+      ...defaults.dtmf!,
+      ...partial.dtmf,
+    },
     twilio: partial.twilio ?? defaults.twilio,
   };
 }
+
+/**
+ * Apply a per-session override (e.g., a persona) to the base PersonaPlex settings
+ *
+ * Sampling parameters are merged key by key; everything else is replaced.
+ */
+export function mergePersonaPlexConfig(
+  base: PersonaPlexConfig,
+  override?: Partial<PersonaPlexConfig>,
+): PersonaPlexConfig {
+  return {
+    ...base,
+    ...override,
+    sampling: { ...base.sampling, ...override?.sampling },
+  };
+}
+
+/**
+ * Validate sampling parameters against their allowed ranges
+ *
+ * Undefined values are dropped so the server defaults apply.
+ *
+ * @throws Error if any value is out of range or not an integer where one is required
+ */
+export function validateSamplingParams(params: PersonaPlexSamplingParams): PersonaPlexSamplingParams {
+  const validated: PersonaPlexSamplingParams = {};
+
+  for (const key of Object.keys(SAMPLING_LIMITS) as (keyof PersonaPlexSamplingParams)[]) {
+    const value = params[key];
+    if (value === undefined) {
+      continue;
+    }
+
+    const { min, max, integer } = SAMPLING_LIMITS[key];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`Invalid sampling parameter ${key}: ${value} (expected ${min} to ${max})`);
+    }
+    if (integer && !Number.isInteger(value)) {
+      throw new Error(`Invalid sampling parameter ${key}: ${value} (expected an integer)`);
+    }
+
+    validated[key] = value;
+  }
+
+  return validated;
+}
+
+/**
+ * Validate persona settings (from PERSONAS or a persona file)
+ *
+ * @param raw - Parsed JSON/YAML value
+ * @param label - Where the value came from, used in error messages
+ * @throws Error describing the first invalid field
+ */
+export function validatePersonaDefinition(raw: unknown, label: string): PersonaDefinition {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid persona ${label}: expected an object`);
+  }
+  const value = raw as Record<string, unknown>;
+
+  for (const key of ['name', 'voicePrompt', 'textPrompt', 'greeting'] as const) {
+    if (value[key] !== undefined && (typeof value[key] !== 'string' || value[key] === '')) {
+      throw new Error(`Invalid persona ${label}: ${key} must be a non-empty string`);
+    }
+  }
+
+  let limits: PersonaLimits | undefined;
+  if (value['limits'] !== undefined) {
+    if (typeof value['limits'] !== 'object' || value['limits'] === null) {
+      throw new Error(`Invalid persona ${label}: limits must be an object`);
+    }
+    limits = {};
+    for (const key of ['maxConcurrent', 'maxCallDurationMs', 'callerSilenceMs'] as const) {
+      const limit = (value['limits'] as Record<string, unknown>)[key];
+      if (limit === undefined) {
+        continue;
+      }
+      if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Invalid persona ${label}: limits.${key} must be a positive integer`);
+      }
+      limits[key] = limit;
+    }
+  }
+
+  if (value['record'] !== undefined && typeof value['record'] !== 'boolean') {
+    throw new Error(`Invalid persona ${label}: record must be a boolean`);
+  }
+
+  let sampling: PersonaPlexSamplingParams | undefined;
+  if (value['sampling'] !== undefined) {
+    if (typeof value['sampling'] !== 'object' || value['sampling'] === null) {
+      throw new Error(`Invalid persona ${label}: sampling must be an object`);
+    }
+    try {
+      sampling = validateSamplingParams(value['sampling'] as PersonaPlexSamplingParams);
+    } catch (error) {
+      throw new Error(`Invalid persona ${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const triggers = value['triggers'] !== undefined
+    ? validateTriggerDefinitions(value['triggers'], `persona ${label} triggers`)
+    : undefined;
+
+  return {
+    name: value['name'] as string | undefined,
+    voicePrompt: value['voicePrompt'] as string | undefined,
+    textPrompt: value['textPrompt'] as string | undefined,
+    greeting: value['greeting'] as string | undefined,
+    sampling,
+    limits,
+    record: value['record'] as boolean | undefined,
+    triggers,
+  };
+}
+
+/**
+ * Parse PERSONAPLEX_BACKENDS ("url|capacity,url|capacity", capacity optional)
+ */
+function parseBackendsEnv(raw: string | undefined): PersonaPlexBackendConfig[] | undefined {
+  if (!raw || raw.trim() === '') {
+    return undefined;
+  }
+
+  return raw.split(',').map((entry) => {
+    const [url = '', capacity] = entry.trim().split('|');
+    if (capacity === undefined) {
+      return { url };
+    }
+
+    const parsed = parseInt(capacity, 10);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`Invalid capacity for PersonaPlex backend ${url}: "${capacity}"`);
+    }
+    return { url, capacity: parsed };
+  });
+}
+
+/**
+ * Parse PERSONAS: a JSON object of persona name to persona settings
+ */
+function parsePersonasEnv(raw: string | undefined): Record<string, PersonaDefinition> {
+  if (!raw || raw.trim() === '') {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid PERSONAS: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Invalid PERSONAS: expected a JSON object of persona name to settings');
+  }
+
+  const definitions: Record<string, PersonaDefinition> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    definitions[name] = validatePersonaDefinition(value, `PERSONAS.${name}`);
+  }
+  return definitions;
+}
+
+/**
+ * Parse TRIGGERS: a JSON list of trigger definitions
+ */
+function parseTriggersEnv(raw: string | undefined): TriggerDefinition[] {
+  if (!raw || raw.trim() === '') {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid TRIGGERS: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateTriggerDefinitions(parsed, 'TRIGGERS');
+}
+
+/**
+ * Parse DTMF_MENU: a JSON menu definition
+ */
+function parseDtmfMenuEnv(raw: string | undefined): DtmfMenuDefinition | undefined {
+  if (!raw || raw.trim() === '') {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid DTMF_MENU: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateDtmfMenu(parsed, 'DTMF_MENU');
+}
+
+/**
+ * Parse PERSONA_NUMBERS: comma-separated "number=persona" entries
+ */
+function parsePersonaNumbersEnv(raw: string | undefined): Record<string, string> {
+  const numbers: Record<string, string> = {};
+  if (!raw || raw.trim() === '') {
+    return numbers;
+  }
+
+  for (const entry of raw.split(',')) {
+    const [number = '', persona = ''] = entry.trim().split('=');
+    if (!number || !persona) {
+      throw new Error(`Invalid PERSONA_NUMBERS entry: "${entry}" (expected number=persona)`);
+    }
+    numbers[number.trim()] = persona.trim();
+  }
+  return numbers;
+}
+
+/**
+ * Parse AUDIO_RESAMPLER_QUALITY (default: medium)
+ */
+function parseResamplerQuality(raw: string | undefined): ResamplerQuality {
+  const qualities: ResamplerQuality[] = ['linear', 'low', 'medium', 'high'];
+  if (!raw) {
+    return 'medium';
+  }
+  if (!qualities.includes(raw as ResamplerQuality)) {
+    throw new Error(`Invalid AUDIO_RESAMPLER_QUALITY: "${raw}" (expected ${qualities.join(', ')})`);
+  }
+  return raw as ResamplerQuality;
+}
+
+/**
+ * Parse SESSION_WHEN_FULL (default: hold)
+ */
+function parseWhenFull(raw: string | undefined): SessionConfig['whenFull'] {
+  if (!raw) {
+    return 'hold';
+  }
+  if (raw !== 'hold' && raw !== 'reject') {
+    throw new Error(`Invalid SESSION_WHEN_FULL: "${raw}" (expected hold or reject)`);
+  }
+  return raw;
+}
+
+/**
+ * Parse RECORDING_SAMPLE_RATE (default: 8000)
+ */
+function parseRecordingSampleRate(raw: string | undefined): RecordingSampleRate {
+  if (!raw) {
+    return 8000;
+  }
+  const rate = Number(raw);
+  if (rate !== 8000 && rate !== 24000) {
+    throw new Error(`Invalid RECORDING_SAMPLE_RATE: "${raw}" (expected 8000 or 24000)`);
+  }
+  return rate;
+}
+
+/**
+ * Parse OPUS_FRAME_MS (default: the encoder's 20ms)
+ */
+function parseOpusFrameDuration(raw: string | undefined): OpusFrameDuration | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  const duration = OPUS_FRAME_DURATIONS_MS.find((ms) => ms === Number(raw));
+  if (duration === undefined) {
+    throw new Error(`Invalid OPUS_FRAME_MS: "${raw}" (expected one of ${OPUS_FRAME_DURATIONS_MS.join(', ')})`);
+  }
+  return duration;
+}
+
+/**
+ * Read an optional boolean environment variable ("true"/"1" or "false"/"0")
+ */
+function parseBooleanEnv(name: string): boolean | undefined {
+  const raw = process.env[name]?.trim().toLowerCase();
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+  if (raw === 'true' || raw === '1') {
+    return true;
+  }
+  if (raw === 'false' || raw === '0') {
+    return false;
+  }
+  throw new Error(`Invalid ${name}: "${raw}" is not a boolean`);
+}
+
+/**
+ * Read an integer environment variable
+ *
+ * @param min - Smallest accepted value (default: 0)
+ */
+function parseIntegerEnv(name: string, fallback: number, min: number = 0): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid ${name}: "${raw}" is not an integer >= ${min}`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional numeric environment variable
+ */
+function parseNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (Number.isNaN(value)) {
+    throw new Error(`Invalid ${name}: "${raw}" is not a number`);
+  }
+  return value;
+}
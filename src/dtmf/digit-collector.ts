@@ -0,0 +1,136 @@
+/**
+ * Digit Collector
+ *
+ * Buffers DTMF keypresses into entries (an account number, a PIN, a menu
+ * choice). An entry ends when the caller presses a terminator key, pauses
+ * longer than the inter-digit timeout, or reaches the maximum length.
+ */
+
+import { EventEmitter } from 'events';
+
+/** Keys a DTMF keypad can send */
+export const DTMF_KEYS = '0123456789*#ABCD';
+
+/**
+ * Why an entry ended
+ */
+export type CollectionEnd =
+  /** The caller pressed a terminator key (not included in the digits) */
+  | 'terminator'
+  /** The caller paused longer than the inter-digit timeout */
+  | 'timeout'
+  /** The entry reached maxDigits */
+  | 'maxDigits';
+
+/**
+ * Digit collector options
+ */
+export interface DigitCollectorOptions {
+  /** Pause after a keypress that ends the entry (default: 3000ms) */
+  interDigitTimeoutMs?: number;
+  /** Keys that end the entry (default: #) */
+  terminators?: string;
+  /** End the entry after this many digits (default: 0, no limit) */
+  maxDigits?: number;
+}
+
+/**
+ * DigitCollector events
+ */
+export interface DigitCollectorEvents {
+  /** An entry is complete */
+  collected: [digits: string, end: CollectionEnd];
+}
+
+/**
+ * Collects DTMF keypresses into entries
+ *
+ * @example
+ * ```typescript
+ * const collector = new DigitCollector({ terminators: '#', interDigitTimeoutMs: 3000 });
+ *
+ * collector.on('collected', (digits, end) => console.log('Caller entered', digits, end));
+ * twilioHandler.on('dtmf', (digit) => collector.push(digit));
+ * ```
+ */
+export class DigitCollector extends EventEmitter<DigitCollectorEvents> {
+  private readonly interDigitTimeoutMs: number;
+  private readonly terminators: string;
+  private readonly maxDigits: number;
+  private buffer: string = '';
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: DigitCollectorOptions = {}) {
+    super();
+    this.interDigitTimeoutMs = options.interDigitTimeoutMs ?? 3000;
+    this.terminators = options.terminators ?? '#';
+    this.maxDigits = options.maxDigits ?? 0;
+  }
+
+  /**
+   * Add a keypress; keys a keypad cannot send are ignored
+   */
+  push(digit: string): void {
+    if (digit.length !== 1 || !DTMF_KEYS.includes(digit)) {
+      return;
+    }
+
+    if (this.terminators.includes(digit)) {
+      // A terminator on its own is not an entry
+      if (this.buffer) {
+        this.complete('terminator');
+      }
+      return;
+    }
+
+    this.buffer += digit;
+    if (this.maxDigits > 0 && this.buffer.length >= this.maxDigits) {
+      this.complete('maxDigits');
+      return;
+    }
+
+    this.clearTimer();
+    if (this.interDigitTimeoutMs > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.complete('timeout');
+      }, this.interDigitTimeoutMs);
+    }
+  }
+
+  /**
+   * Digits of the entry in progress
+   */
+  get digits(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Drop the entry in progress without reporting it
+   */
+  clear(): void {
+    this.clearTimer();
+    this.buffer = '';
+  }
+
+  /**
+   * Stop the inter-digit timer and remove listeners
+   */
+  dispose(): void {
+    this.clear();
+    this.removeAllListeners();
+  }
+
+  private complete(end: CollectionEnd): void {
+    const digits = this.buffer;
+    this.clear();
+    this.emit('collected', digits, end);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
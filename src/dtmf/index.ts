@@ -0,0 +1,8 @@
+/**
+ * DTMF (keypad) input module
+ */
+
+export { DigitCollector, DTMF_KEYS } from './digit-collector.js';
+export type { CollectionEnd, DigitCollectorEvents, DigitCollectorOptions } from './digit-collector.js';
+export { DtmfMenu, validateDtmfMenu } from './menu.js';
+export type { DtmfMenuAction, DtmfMenuDefinition, DtmfMenuEvents, DtmfMenuResult } from './menu.js';
@@ -0,0 +1,225 @@
+/**
+ * DTMF Menu
+ *
+ * A keypad menu the caller answers before the AI conversation starts
+ * ("press 1 for billing, 2 for support"). Each option selects a persona,
+ * transfers the call, or adds text to the conversation's prompt.
+ *
+ * A choice completes as soon as the digits pressed match an option that no
+ * longer option starts with; otherwise on a terminator key or a pause.
+ * Without a valid choice within the menu timeout, the default option (if
+ * any) is used.
+ */
+
+import { EventEmitter } from 'events';
+import { isTransferTarget, type TransferTarget } from '../twilio/twiml.js';
+import { DigitCollector, type DigitCollectorOptions } from './digit-collector.js';
+
+/**
+ * What a menu option does
+ */
+export type DtmfMenuAction =
+  /** Talk to this persona */
+  | { type: 'persona'; persona: string }
+  /** Transfer the call without starting the conversation */
+  | { type: 'transfer'; target: TransferTarget }
+  /** Start the conversation with this text added to the prompt */
+  | { type: 'context'; text: string };
+
+/**
+ * A keypad menu
+ */
+export interface DtmfMenuDefinition {
+  /** Said to the caller before the media stream connects */
+  prompt: string;
+  /** Actions by the digits that choose them (e.g., "1", "2", "0") */
+  options: Record<string, DtmfMenuAction>;
+  /** Used when the caller chooses nothing valid in time (default: the conversation starts as usual) */
+  default?: DtmfMenuAction;
+  /** How long to wait for a choice (default: 10000ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * How a menu ended
+ */
+export interface DtmfMenuResult {
+  /** Action to run (the chosen option, the default, or null) */
+  action: DtmfMenuAction | null;
+  /** Digits the caller entered */
+  digits: string;
+  /** Whether the caller chose a valid option, entered something else, or chose nothing in time */
+  outcome: 'selected' | 'invalid' | 'timeout';
+}
+
+/**
+ * DtmfMenu events
+ */
+export interface DtmfMenuEvents {
+  /** The menu ended (emitted once) */
+  done: [result: DtmfMenuResult];
+}
+
+const ACTION_TYPES: ReadonlySet<string> = new Set(['persona', 'transfer', 'context']);
+const OPTION_KEY = /^[0-9*ABCD]+$/;
+
+/**
+ * Collects a caller's menu choice
+ *
+ * @example
+ * ```typescript
+ * const menu = new DtmfMenu(config.dtmf.menu);
+ *
+ * menu.on('done', ({ action }) => startConversation(action));
+ * twilioHandler.on('dtmf', (digit) => menu.push(digit));
+ * menu.start();
+ * ```
+ */
+export class DtmfMenu extends EventEmitter<DtmfMenuEvents> {
+  private readonly definition: DtmfMenuDefinition;
+  private readonly keys: string[];
+  private readonly collector: DigitCollector;
+  private timer: NodeJS.Timeout | null = null;
+  private finished: boolean = false;
+
+  /**
+   * @param definition - Menu options
+   * @param options - Terminators and inter-digit timeout for multi-digit choices
+   */
+  constructor(definition: DtmfMenuDefinition, options: Omit<DigitCollectorOptions, 'maxDigits'> = {}) {
+    super();
+    this.definition = definition;
+    this.keys = Object.keys(definition.options);
+    this.collector = new DigitCollector({
+      ...options,
+      maxDigits: Math.max(1, ...this.keys.map((key) => key.length)),
+    });
+    this.collector.on('collected', (digits) => this.choose(digits));
+  }
+
+  /**
+   * Start waiting for a choice
+   */
+  start(): void {
+    if (this.timer || this.finished) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.finish({ action: this.definition.default ?? null, digits: this.collector.digits, outcome: 'timeout' });
+    }, this.definition.timeoutMs ?? 10000);
+  }
+
+  /**
+   * Add a keypress from the caller
+   */
+  push(digit: string): void {
+    if (this.finished) {
+      return;
+    }
+    this.collector.push(digit);
+
+    // Complete early once the digits can only mean one option, or none
+    const digits = this.collector.digits;
+    if (!digits) {
+      return;
+    }
+    const candidates = this.keys.filter((key) => key.startsWith(digits));
+    if (candidates.length === 0 || (candidates.length === 1 && candidates[0] === digits)) {
+      this.collector.clear();
+      this.choose(digits);
+    }
+  }
+
+  /**
+   * Stop waiting without reporting a result (e.g., the caller hung up)
+   */
+  dispose(): void {
+    this.finished = true;
+    this.clearTimer();
+    this.collector.dispose();
+    this.removeAllListeners();
+  }
+
+  private choose(digits: string): void {
+    const action = this.definition.options[digits];
+    if (action) {
+      this.finish({ action, digits, outcome: 'selected' });
+    } else {
+      this.finish({ action: this.definition.default ?? null, digits, outcome: 'invalid' });
+    }
+  }
+
+  private finish(result: DtmfMenuResult): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.clearTimer();
+    this.collector.dispose();
+    this.emit('done', result);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Validate a menu definition (from config)
+ *
+ * @param raw - Parsed JSON value
+ * @param label - Where the value came from, used in error messages
+ * @throws Error describing the first problem found
+ */
+export function validateDtmfMenu(raw: unknown, label: string): DtmfMenuDefinition {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: expected an object`);
+  }
+  const value = raw as Record<string, unknown>;
+
+  if (typeof value['prompt'] !== 'string' || value['prompt'] === '') {
+    throw new Error(`Invalid ${label}: prompt must be a non-empty string`);
+  }
+  if (value['timeoutMs'] !== undefined && (typeof value['timeoutMs'] !== 'number' || !(value['timeoutMs'] > 0))) {
+    throw new Error(`Invalid ${label}: timeoutMs must be a number > 0`);
+  }
+
+  const options = value['options'];
+  if (typeof options !== 'object' || options === null || Array.isArray(options) || Object.keys(options).length === 0) {
+    throw new Error(`Invalid ${label}: options must map digits to actions`);
+  }
+  for (const [key, action] of Object.entries(options)) {
+    if (!OPTION_KEY.test(key)) {
+      throw new Error(`Invalid ${label}: option "${key}" must be keypad digits (# ends an entry)`);
+    }
+    validateAction(action, `${label}.options.${key}`);
+  }
+  if (value['default'] !== undefined) {
+    validateAction(value['default'], `${label}.default`);
+  }
+
+  return value as unknown as DtmfMenuDefinition;
+}
+
+function validateAction(raw: unknown, where: string): void {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error(`Invalid ${where}: expected an action object`);
+  }
+  const action = raw as Record<string, unknown>;
+  const type = action['type'];
+  if (typeof type !== 'string' || !ACTION_TYPES.has(type)) {
+    throw new Error(`Invalid ${where}: type must be one of ${[...ACTION_TYPES].join(', ')}`);
+  }
+
+  const required = { persona: 'persona', transfer: null, context: 'text' }[type as DtmfMenuAction['type']];
+  if (required && (typeof action[required] !== 'string' || action[required] === '')) {
+    throw new Error(`Invalid ${where}: ${required} must be a non-empty string`);
+  }
+  if (type === 'transfer' && !isTransferTarget(action['target'])) {
+    throw new Error(`Invalid ${where}: target must be {type: number|sip|queue, ...} with its number, uri or name`);
+  }
+}
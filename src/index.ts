@@ -8,21 +8,78 @@
  */
 
 // Configuration
-export { VoiceBotConfig, loadConfig, createConfig } from './config.js';
+export { VoiceBotConfig, loadConfig, createConfig, validateSamplingParams, validatePersonaDefinition } from './config.js';
+export type { PersonaPlexSamplingParams, RecordingConfig, RecordingSampleRate } from './config.js';
 
 // PersonaPlex Client
-export { PersonaPlexClient } from './personaplex/index.js';
-export type { PersonaPlexConfig, PersonaPlexMessage } from './personaplex/index.js';
+export { PersonaPlexClient, BackendPool, WarmConnectionPool } from './personaplex/index.js';
+export type { PersonaPlexConfig, PersonaPlexMessage, PersonaPlexMetadata, ControlActionName, BackendState, WarmConnectionPoolStats } from './personaplex/index.js';
 
 // Twilio Integration
-export { TwilioMediaHandler, generateStreamTwiml } from './twilio/index.js';
-export type { TwilioMediaMessage } from './twilio/index.js';
+export {
+  TwilioMediaHandler,
+  HoldPlayer,
+  OutboundScheduler,
+  TwilioCallControl,
+  TwilioSmsNotifier,
+  OutboundCallManager,
+  generateStreamTwiml,
+  generateDialTwiml,
+  generateDequeueTwiml,
+} from './twilio/index.js';
+export type { TwilioMediaMessage, OutboundCall, PlaceCallOptions, TransferTarget, DialTwimlOptions } from './twilio/index.js';
+
+// Session Management
+export { SessionManager } from './sessions/index.js';
+export type { SessionInfo, SessionManagerOptions } from './sessions/index.js';
+
+// Personas
+export { selectPersona, findPersona, getPersonaOverride, PersonaRegistry } from './personas/index.js';
+export type {
+  Persona,
+  PersonaDefinition,
+  PersonaLimits,
+  PersonasConfig,
+  PersonaResolver,
+  PersonaSelectionContext,
+} from './personas/index.js';
+
+// Transcripts
+export { Transcript } from './transcript/index.js';
+export type { Speaker, TranscriptEntry, TranscriptJson, TranscriptOptions } from './transcript/index.js';
+
+// Triggers
+export { TriggerEngine, validateTriggerDefinitions, fillTemplate } from './triggers/index.js';
+export type {
+  TriggerAction,
+  TriggerDefinition,
+  TriggerEngineOptions,
+  TriggerMatch,
+  Notification,
+  Notifier,
+} from './triggers/index.js';
+
+// Keypad Input
+export { DigitCollector, DtmfMenu, validateDtmfMenu, DTMF_KEYS } from './dtmf/index.js';
+export type {
+  CollectionEnd,
+  DigitCollectorOptions,
+  DtmfMenuAction,
+  DtmfMenuDefinition,
+  DtmfMenuResult,
+} from './dtmf/index.js';
+
+// Call Recording
+export { CallRecorder, applyRetention } from './recording/index.js';
+export type { CallRecorderOptions, RecordingResult, RetentionPolicy } from './recording/index.js';
 
 // Audio Utilities
 export * from './audio/index.js';
 
 // Server
 export { startServer, createServer } from './server/index.js';
+export type { ServerOptions } from './server/index.js';
 
 // Main VoiceBot class
 export { VoiceBot } from './voice-bot.js';
+export type { SessionEndReason, CallTransfer } from './voice-bot.js';
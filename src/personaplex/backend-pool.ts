@@ -0,0 +1,280 @@
+/**
+ * PersonaPlex Backend Pool
+ *
+ * Spreads sessions across several PersonaPlex servers:
+ * - Per-backend capacity limits
+ * - Periodic handshake probes to track backend health
+ * - Least-loaded selection among healthy backends
+ *
+ * Backends with live sessions are not probed (a probe would occupy a
+ * conversation slot); their health is reported by the sessions themselves.
+ */
+
+import { EventEmitter } from 'events';
+import { PersonaPlexClient } from './client.js';
+import type { PersonaPlexConfig } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('backend-pool');
+
+/**
+ * A PersonaPlex backend and how many conversations it can hold
+ */
+export interface PersonaPlexBackend {
+  /** WebSocket URL of the backend (e.g., wss://gpu-1:8998/api/chat) */
+  url: string;
+  /** Maximum concurrent sessions on this backend */
+  capacity: number;
+}
+
+/**
+ * Backend health status
+ */
+export type BackendStatus = 'unknown' | 'healthy' | 'unhealthy';
+
+/**
+ * Snapshot of a backend's state
+ */
+export interface BackendState extends PersonaPlexBackend {
+  /** Current health status */
+  status: BackendStatus;
+  /** Sessions currently using the backend */
+  active: number;
+  /** Time of the last probe or session report */
+  lastCheckedAt?: Date;
+  /** Handshake latency of the last successful probe in ms */
+  latencyMs?: number;
+  /** Last failure reason */
+  lastError?: string;
+}
+
+/**
+ * Backend pool options
+ */
+export interface BackendPoolOptions {
+  /** Backends to balance across */
+  backends: PersonaPlexBackend[];
+  /** Prompts used for probe connections */
+  probeConfig: Pick<PersonaPlexConfig, 'voicePrompt' | 'textPrompt'>;
+  /** Interval between health probes in ms (default: 30000) */
+  healthCheckInterval?: number;
+  /** Time allowed for a probe handshake in ms (default: 10000) */
+  probeTimeout?: number;
+}
+
+/**
+ * BackendPool events
+ */
+export interface BackendPoolEvents {
+  /** A backend changed health status */
+  statusChange: [backend: BackendState];
+}
+
+/**
+ * Pool of PersonaPlex backends
+ *
+ * @example
+ * ```typescript
+ * const pool = new BackendPool({
+ *   backends: [
+ *     { url: 'wss://gpu-1:8998/api/chat', capacity: 2 },
+ *     { url: 'wss://gpu-2:8998/api/chat', capacity: 1 },
+ *   ],
+ *   probeConfig: { voicePrompt: 'NATF2.pt', textPrompt: 'Health check.' },
+ * });
+ * pool.start();
+ *
+ * const url = pool.acquire();
+ * // ... use the backend, then
+ * pool.release(url);
+ * ```
+ */
+export class BackendPool extends EventEmitter<BackendPoolEvents> {
+  private readonly backends: BackendState[];
+  private readonly probeConfig: BackendPoolOptions['probeConfig'];
+  private readonly healthCheckInterval: number;
+  private readonly probeTimeout: number;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly probing = new Set<string>();
+
+  constructor(options: BackendPoolOptions) {
+    super();
+    if (options.backends.length === 0) {
+      throw new Error('Backend pool needs at least one backend');
+    }
+
+    this.backends = options.backends.map((backend) => ({
+      url: backend.url,
+      capacity: Math.max(1, backend.capacity),
+      status: 'unknown',
+      active: 0,
+    }));
+    this.probeConfig = options.probeConfig;
+    this.healthCheckInterval = options.healthCheckInterval ?? 30000;
+    this.probeTimeout = options.probeTimeout ?? 10000;
+  }
+
+  /**
+   * Start periodic health probes
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    void this.checkAll();
+    this.timer = setInterval(() => void this.checkAll(), this.healthCheckInterval);
+  }
+
+  /**
+   * Stop periodic health probes
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reserve a slot on the least-loaded available backend
+   *
+   * @param exclude - Backend URLs to skip (e.g., ones that already failed for this session)
+   * @returns Backend URL, or null if no backend has a free slot
+   */
+  acquire(exclude: ReadonlySet<string> = new Set()): string | null {
+    let best: BackendState | null = null;
+
+    for (const backend of this.backends) {
+      if (backend.status === 'unhealthy' || exclude.has(backend.url) || backend.active >= backend.capacity) {
+        continue;
+      }
+      // Prefer known-healthy backends, then the lowest load ratio
+      if (!best || rank(backend) < rank(best)) {
+        best = backend;
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    best.active++;
+    return best.url;
+  }
+
+  /**
+   * Release a slot reserved with acquire()
+   */
+  release(url: string): void {
+    const backend = this.find(url);
+    if (backend && backend.active > 0) {
+      backend.active--;
+    }
+  }
+
+  /**
+   * Report a backend that rejected or timed out a session
+   */
+  markUnhealthy(url: string, error: Error): void {
+    const backend = this.find(url);
+    if (backend) {
+      this.setStatus(backend, 'unhealthy', error.message);
+    }
+  }
+
+  /**
+   * Report a backend that accepted a session
+   */
+  markHealthy(url: string): void {
+    const backend = this.find(url);
+    if (backend) {
+      this.setStatus(backend, 'healthy');
+    }
+  }
+
+  /**
+   * Total session slots on backends not known to be down
+   */
+  totalCapacity(): number {
+    return this.backends
+      .filter((backend) => backend.status !== 'unhealthy')
+      .reduce((sum, backend) => sum + backend.capacity, 0);
+  }
+
+  /**
+   * Get a snapshot of all backends
+   */
+  list(): BackendState[] {
+    return this.backends.map((backend) => ({ ...backend }));
+  }
+
+  /**
+   * Probe a single backend with a handshake
+   *
+   * @returns true if the backend completed the handshake in time
+   */
+  async probe(url: string): Promise<boolean> {
+    const backend = this.find(url);
+    if (!backend || this.probing.has(url)) {
+      return backend?.status === 'healthy';
+    }
+
+    this.probing.add(url);
+    const client = new PersonaPlexClient({
+      config: { ...this.probeConfig, url },
+      maxReconnectAttempts: 0,
+      connectTimeout: this.probeTimeout,
+    });
+    // Errors surface through connect(); avoid unhandled 'error' events
+    client.on('error', () => {});
+
+    const startedAt = Date.now();
+    try {
+      await client.connect();
+      backend.latencyMs = Date.now() - startedAt;
+      this.setStatus(backend, 'healthy');
+      return true;
+    } catch (error) {
+      this.setStatus(backend, 'unhealthy', error instanceof Error ? error.message : String(error));
+      return false;
+    } finally {
+      this.probing.delete(url);
+      await client.close();
+    }
+  }
+
+  /**
+   * Probe every idle backend
+   */
+  private async checkAll(): Promise<void> {
+    const idle = this.backends.filter((backend) => backend.active === 0);
+    await Promise.all(idle.map((backend) => this.probe(backend.url)));
+  }
+
+  private find(url: string): BackendState | undefined {
+    return this.backends.find((backend) => backend.url === url);
+  }
+
+  private setStatus(backend: BackendState, status: BackendStatus, error?: string): void {
+    const changed = backend.status !== status;
+    backend.status = status;
+    backend.lastCheckedAt = new Date();
+    if (error) {
+      backend.lastError = error;
+    }
+
+    if (changed) {
+      logger.info({ url: backend.url, status, error }, 'Backend status changed');
+      this.emit('statusChange', { ...backend });
+    }
+  }
+}
+
+/**
+ * Sort key for backend selection (lower is better)
+ */
+function rank(backend: BackendState): number {
+  const healthPenalty = backend.status === 'healthy' ? 0 : 1;
+  return healthPenalty + backend.active / backend.capacity;
+}
@@ -7,8 +7,38 @@
 
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
-import { encodeAudioMessage, decodeMessage, type PersonaPlexMessage } from './protocol.js';
-import type { PersonaPlexConfig } from '../config.js';
+import {
+  encodeAudioMessage,
+  encodeControlMessage,
+  encodePingMessage,
+  decodeMessage,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type ControlActionName,
+  type PersonaPlexMessage,
+  type PersonaPlexMetadata,
+} from './protocol.js';
+import type { PersonaPlexConfig, PersonaPlexSamplingParams } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('personaplex-client');
+
+/** How often the inactivity timeout is checked */
+const INACTIVITY_CHECK_INTERVAL_MS = 500;
+
+/**
+ * Query parameter names used by the PersonaPlex server for sampling settings
+ */
+const SAMPLING_QUERY_PARAMS: Record<keyof PersonaPlexSamplingParams, string> = {
+  textTemperature: 'text_temperature',
+  textTopk: 'text_topk',
+  audioTemperature: 'audio_temperature',
+  audioTopk: 'audio_topk',
+  padMult: 'pad_mult',
+  repetitionPenalty: 'repetition_penalty',
+  repetitionPenaltyContext: 'repetition_penalty_context',
+  textSeed: 'text_seed',
+  audioSeed: 'audio_seed',
+};
 
 /**
  * Client connection options
@@ -22,6 +52,20 @@ export interface PersonaPlexClientOptions {
   maxReconnectAttempts?: number;
   /** Reconnection delay in ms */
   reconnectDelay?: number;
+  /** Give up on connect() if no handshake arrives within this many ms (default: no limit) */
+  connectTimeout?: number;
+  /** Interval between keepalive pings in ms, 0 disables (default: 5000) */
+  keepaliveInterval?: number;
+  /** Drop the connection when nothing (audio, text, pong, ...) arrives for this many ms, 0 disables (default: 10000) */
+  inactivityTimeout?: number;
+}
+
+/**
+ * Protocol version and model announced in the server handshake
+ */
+export interface PersonaPlexHandshake {
+  version: number;
+  model: number;
 }
 
 /**
@@ -38,6 +82,12 @@ export interface PersonaPlexClientEvents {
   audio: [data: Buffer];
   /** Emitted when text is received (transcript) */
   text: [text: string];
+  /** Emitted when the server sends a control message */
+  control: [action: ControlActionName];
+  /** Emitted when the server sends its metadata (model file, sampling settings, build info) */
+  metadata: [metadata: PersonaPlexMetadata];
+  /** Emitted with each measured ping round-trip time in ms */
+  rtt: [rttMs: number];
   /** Emitted on handshake completion */
   ready: [];
   /** Emitted for any message */
@@ -77,10 +127,22 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
   private readonly autoReconnect: boolean;
   private readonly maxReconnectAttempts: number;
   private readonly reconnectDelay: number;
+  private readonly connectTimeout: number | undefined;
+  private readonly keepaliveInterval: number;
+  private readonly inactivityTimeout: number;
   private reconnectAttempts: number = 0;
   private isConnecting: boolean = false;
   private isReady: boolean = false;
   private shouldReconnect: boolean = true;
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private inactivityTimer: NodeJS.Timeout | null = null;
+  /** Backoff before the next pre-handshake attempt, with the pending connect's reject */
+  private pendingRetry: { timer: NodeJS.Timeout; reject: (error: Error) => void } | null = null;
+  private lastActivity: number = 0;
+  private closeReason: string | null = null;
+  private lastRtt: number | null = null;
+  private handshakeInfo: PersonaPlexHandshake | null = null;
+  private serverMetadata: PersonaPlexMetadata | null = null;
 
   constructor(options: PersonaPlexClientOptions) {
     super();
@@ -88,6 +150,9 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
     this.autoReconnect = options.autoReconnect ?? false;
     this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
     this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.connectTimeout = options.connectTimeout;
+    this.keepaliveInterval = options.keepaliveInterval ?? 5000;
+    this.inactivityTimeout = options.inactivityTimeout ?? 10000;
   }
 
   /**
@@ -110,7 +175,27 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
     // But for a fresh "connect()" call from outside, we usually start from 0.
     this.reconnectAttempts = 0;
 
-    return this.connectInternal();
+    if (this.connectTimeout === undefined) {
+      return this.connectInternal();
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Stop retrying and drop the pending socket
+        this.shouldReconnect = false;
+        this.isConnecting = false;
+        this.cancelRetry();
+        this.ws?.terminate();
+        reject(new Error(`Handshake timed out after ${this.connectTimeout}ms`));
+      }, this.connectTimeout);
+    });
+
+    try {
+      await Promise.race([this.connectInternal(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   private async connectInternal(): Promise<void> {
@@ -119,6 +204,12 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
         const url = new URL(this.config.url);
         url.searchParams.set('voice_prompt', this.config.voicePrompt);
         url.searchParams.set('text_prompt', this.config.textPrompt);
+        for (const [key, param] of Object.entries(SAMPLING_QUERY_PARAMS)) {
+          const value = this.config.sampling?.[key as keyof PersonaPlexSamplingParams];
+          if (value !== undefined) {
+            url.searchParams.set(param, value.toString());
+          }
+        }
 
         this.ws = new WebSocket(url.toString(), {
           rejectUnauthorized: false,
@@ -133,7 +224,12 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
         });
 
         this.ws.on('message', (data: Buffer) => {
-          this.handleMessage(data, resolve);
+          this.lastActivity = Date.now();
+          this.handleMessage(data, resolve, reject);
+        });
+
+        this.ws.on('pong', () => {
+          this.lastActivity = Date.now();
         });
 
         this.ws.on('error', (error) => {
@@ -153,9 +249,16 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
                    console.log(`[PersonaPlex] Connection failed, retrying in ${delay}ms (Attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
                    
                    this.ws = null; // Cleanup
-                   setTimeout(() => {
+                   const timer = setTimeout(() => {
+                        this.pendingRetry = null;
+                        // close() or the connect timeout may have given up during the backoff
+                        if (!this.shouldReconnect) {
+                            reject(new Error('Connection closed before the handshake'));
+                            return;
+                        }
                         this.connectInternal().then(resolve).catch(reject);
                    }, delay);
+                   this.pendingRetry = { timer, reject };
                } else {
                    this.isConnecting = false;
                    reject(new Error(`Failed to connect after ${this.reconnectAttempts} attempts: Connection closed`));
@@ -164,7 +267,10 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
                // Normal disconnect logic
                this.isConnecting = false;
                this.isReady = false;
-               this.emit('disconnected', reason?.toString() ?? `Code: ${code}`);
+               this.stopKeepalive();
+               const closeReason = this.closeReason ?? (reason?.length ? reason.toString() : `Code: ${code}`);
+               this.closeReason = null;
+               this.emit('disconnected', closeReason);
                
                if (this.autoReconnect && this.shouldReconnect) {
                    this.attemptReconnect();
@@ -186,13 +292,28 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
   /**
    * Handle incoming WebSocket message
    */
-  private handleMessage(data: Buffer, resolveConnect?: (value: void) => void): void {
+  private handleMessage(
+    data: Buffer,
+    resolveConnect?: (value: void) => void,
+    rejectConnect?: (error: Error) => void,
+  ): void {
     const message = decodeMessage(data);
     this.emit('message', message);
 
     switch (message.type) {
       case 'handshake':
+        if (!SUPPORTED_PROTOCOL_VERSIONS.includes(message.version)) {
+          // Retrying cannot help; the server speaks a protocol this client does not
+          this.shouldReconnect = false;
+          this.ws?.close();
+          rejectConnect?.(new Error(
+            `Unsupported PersonaPlex protocol version ${message.version} (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`,
+          ));
+          break;
+        }
+        this.handshakeInfo = { version: message.version, model: message.model };
         this.isReady = true;
+        this.startKeepalive();
         this.emit('ready');
         resolveConnect?.();
         break;
@@ -205,12 +326,70 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
         this.emit('text', message.data);
         break;
 
+      case 'control':
+        this.emit('control', message.action);
+        break;
+
+      case 'metadata':
+        this.serverMetadata = message.data;
+        this.emit('metadata', message.data);
+        break;
+
+      case 'ping':
+        this.ws?.send(encodePingMessage());
+        break;
+
+      case 'invalid':
+        logger.warn({ rawType: message.rawType, reason: message.reason }, 'Ignoring invalid PersonaPlex message');
+        break;
+
       case 'error':
         this.emit('error', new Error(message.data));
         break;
     }
   }
 
+  /**
+   * Start keepalive pings and the inactivity check for a ready connection
+   */
+  private startKeepalive(): void {
+    this.stopKeepalive();
+    this.lastActivity = Date.now();
+
+    if (this.keepaliveInterval > 0) {
+      this.keepaliveTimer = setInterval(() => {
+        // A missing pong is caught by the inactivity check
+        this.ping().catch(() => {});
+      }, this.keepaliveInterval);
+    }
+
+    if (this.inactivityTimeout > 0) {
+      this.inactivityTimer = setInterval(() => {
+        if (Date.now() - this.lastActivity <= this.inactivityTimeout) {
+          return;
+        }
+        logger.warn({ timeoutMs: this.inactivityTimeout }, 'No traffic from PersonaPlex, dropping connection');
+        this.closeReason = `No traffic for ${this.inactivityTimeout}ms`;
+        this.stopKeepalive();
+        this.ws?.terminate();
+      }, INACTIVITY_CHECK_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Stop keepalive pings and the inactivity check
+   */
+  private stopKeepalive(): void {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+    if (this.inactivityTimer) {
+      clearInterval(this.inactivityTimer);
+      this.inactivityTimer = null;
+    }
+  }
+
   /**
    * Attempt to reconnect after disconnect
    */
@@ -246,6 +425,71 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
     this.ws.send(message);
   }
 
+  /**
+   * Send a control message to PersonaPlex
+   *
+   * @param action - Control action (start, endTurn, pause, restart)
+   */
+  sendControl(action: ControlActionName): void {
+    if (!this.isReady || !this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error('Client is not connected');
+    }
+
+    this.ws.send(encodeControlMessage(action));
+  }
+
+  /**
+   * Send a WebSocket ping and wait for the pong
+   *
+   * @param timeoutMs - How long to wait for the pong (default: 5000)
+   * @returns Round-trip time in ms
+   * @throws Error if the client is not connected or no pong arrives in time
+   */
+  ping(timeoutMs: number = 5000): Promise<number> {
+    const ws = this.ws;
+    if (!this.isReady || !ws || ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Client is not connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const sentAt = Date.now();
+      const onPong = () => {
+        clearTimeout(timer);
+        this.lastRtt = Date.now() - sentAt;
+        this.emit('rtt', this.lastRtt);
+        resolve(this.lastRtt);
+      };
+      const timer = setTimeout(() => {
+        ws.off('pong', onPong);
+        reject(new Error(`No pong within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      ws.once('pong', onPong);
+      ws.ping();
+    });
+  }
+
+  /**
+   * Most recent ping round-trip time in ms (null before the first pong)
+   */
+  get rtt(): number | null {
+    return this.lastRtt;
+  }
+
+  /**
+   * Protocol version and model from the server handshake (null before the handshake)
+   */
+  get handshake(): PersonaPlexHandshake | null {
+    return this.handshakeInfo;
+  }
+
+  /**
+   * Latest metadata sent by the server (null if none was sent)
+   */
+  get metadata(): PersonaPlexMetadata | null {
+    return this.serverMetadata;
+  }
+
   /**
    * Check if client is connected and ready
    */
@@ -258,6 +502,8 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
    */
   async close(): Promise<void> {
     this.shouldReconnect = false;
+    this.stopKeepalive();
+    this.cancelRetry();
     
     if (this.ws) {
       return new Promise((resolve) => {
@@ -275,11 +521,28 @@ export class PersonaPlexClient extends EventEmitter<PersonaPlexClientEvents> {
         if (this.ws.readyState === WebSocket.OPEN) {
           this.ws.close();
         } else {
+          // A socket still connecting could otherwise finish the handshake after we gave up on it
+          this.ws.terminate();
           this.ws = null;
           this.isReady = false;
+          this.isConnecting = false;
           resolve();
         }
       });
     }
   }
+
+  /**
+   * Stop a pending pre-handshake retry, failing the connect waiting on it
+   */
+  private cancelRetry(): void {
+    if (!this.pendingRetry) {
+      return;
+    }
+    const { timer, reject } = this.pendingRetry;
+    this.pendingRetry = null;
+    clearTimeout(timer);
+    this.isConnecting = false;
+    reject(new Error('Connection closed before the handshake'));
+  }
 }
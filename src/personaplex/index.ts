@@ -3,11 +3,21 @@
  */
 
 export { PersonaPlexClient } from './client.js';
-export type { PersonaPlexClientOptions } from './client.js';
+export type { PersonaPlexClientOptions, PersonaPlexHandshake } from './client.js';
+export { BackendPool } from './backend-pool.js';
+export type { PersonaPlexBackend, BackendState, BackendStatus, BackendPoolOptions } from './backend-pool.js';
+export { WarmConnectionPool } from './warm-pool.js';
+export type { WarmConnection, WarmConnectionPoolOptions, WarmConnectionPoolStats } from './warm-pool.js';
 export { 
   MessageType, 
+  ControlAction,
   encodeAudioMessage, 
+  encodeControlMessage,
+  encodePingMessage,
   decodeMessage,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type ControlActionName,
   type PersonaPlexMessage,
+  type PersonaPlexMetadata,
 } from './protocol.js';
 export type { PersonaPlexConfig } from '../config.js';
@@ -1,127 +1,81 @@
 /**
- * PersonaPlex WebSocket Protocol
- * 
- * Message format (binary):
- * - Byte 0: Message type
- * - Bytes 1+: Payload
- * 
- * Based on the original PersonaPlex client implementation.
+ * PersonaPlex WebSocket Protocol (Node)
+ *
+ * Buffer-based wrappers around the shared protocol module (`src/protocol`),
+ * which the React client uses as well. See there for the message format.
  */
 
-/**
- * Message type identifiers
- */
-export const MessageType = {
-  /** Connection handshake (server → client) */
-  HANDSHAKE: 0x00,
-  /** Audio data (bidirectional, Opus encoded) */
-  AUDIO: 0x01,
-  /** Text transcript (server → client) */
-  TEXT: 0x02,
-  /** Control messages */
-  CONTROL: 0x03,
-  /** Metadata */
-  METADATA: 0x04,
-  /** Error */
-  ERROR: 0x05,
-  /** Ping/keepalive */
-  PING: 0x06,
-} as const;
-
-export type MessageTypeValue = (typeof MessageType)[keyof typeof MessageType];
+import {
+  encodeMessage,
+  decodeMessage as decodeProtocolMessage,
+  type ControlActionName,
+  type DecodedMessage,
+} from '../protocol/index.js';
+
+export {
+  MessageType,
+  ControlAction,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type MessageTypeValue,
+  type ControlActionName,
+  type PersonaPlexMetadata,
+} from '../protocol/index.js';
 
 /**
- * Decoded PersonaPlex message
+ * Decoded PersonaPlex message (audio payloads as Buffers)
  */
-export type PersonaPlexMessage = 
-  | { type: 'handshake' }
-  | { type: 'audio'; data: Buffer }
-  | { type: 'text'; data: string }
-  | { type: 'control'; action: string }
-  | { type: 'metadata'; data: unknown }
-  | { type: 'error'; data: string }
-  | { type: 'ping' }
-  | { type: 'unknown'; rawType: number };
+export type PersonaPlexMessage =
+  | Exclude<DecodedMessage, { type: 'audio' }>
+  | { type: 'audio'; data: Buffer };
 
 /**
  * Encode audio data for sending to PersonaPlex
- * 
+ *
  * @param opusData - Opus encoded audio data
  * @returns Buffer ready to send via WebSocket
  */
 export function encodeAudioMessage(opusData: Buffer): Buffer {
-  const message = Buffer.alloc(opusData.length + 1);
-  message[0] = MessageType.AUDIO;
-  opusData.copy(message, 1);
-  return message;
+  return toBuffer(encodeMessage({ type: 'audio', data: opusData }));
 }
 
 /**
- * Decode a message received from PersonaPlex
- * 
- * @param data - Raw binary message from WebSocket
- * @returns Decoded message object
+ * Encode a text message (for sending prompts, etc.)
  */
-export function decodeMessage(data: Buffer): PersonaPlexMessage {
-  if (data.length === 0) {
-    return { type: 'unknown', rawType: -1 };
-  }
-
-  const messageType = data[0];
-  const payload = data.subarray(1);
-
-  switch (messageType) {
-    case MessageType.HANDSHAKE:
-      return { type: 'handshake' };
-
-    case MessageType.AUDIO:
-      return { type: 'audio', data: Buffer.from(payload) };
-
-    case MessageType.TEXT:
-      return { type: 'text', data: payload.toString('utf-8') };
-
-    case MessageType.CONTROL:
-      return { type: 'control', action: decodeControlAction(payload[0]) };
-
-    case MessageType.METADATA:
-      try {
-        return { type: 'metadata', data: JSON.parse(payload.toString('utf-8')) };
-      } catch {
-        return { type: 'metadata', data: null };
-      }
-
-    case MessageType.ERROR:
-      return { type: 'error', data: payload.toString('utf-8') };
-
-    case MessageType.PING:
-      return { type: 'ping' };
+export function encodeTextMessage(text: string): Buffer {
+  return toBuffer(encodeMessage({ type: 'text', data: text }));
+}
 
-    default:
-      return { type: 'unknown', rawType: messageType ?? -1 };
-  }
+/**
+ * Encode a control message
+ *
+ * @param action - Control action to send
+ * @returns Buffer ready to send via WebSocket
+ */
+export function encodeControlMessage(action: ControlActionName): Buffer {
+  return toBuffer(encodeMessage({ type: 'control', action }));
 }
 
 /**
- * Encode a text message (for sending prompts, etc.)
+ * Encode a ping message (also the reply to a server ping)
  */
-export function encodeTextMessage(text: string): Buffer {
-  const textBytes = Buffer.from(text, 'utf-8');
-  const message = Buffer.alloc(textBytes.length + 1);
-  message[0] = MessageType.TEXT;
-  textBytes.copy(message, 1);
-  return message;
+export function encodePingMessage(): Buffer {
+  return toBuffer(encodeMessage({ type: 'ping' }));
 }
 
 /**
- * Control message actions
+ * Decode a message received from PersonaPlex
+ *
+ * @param data - Raw binary message from WebSocket
+ * @returns Decoded message object
  */
-const ControlActions: Record<number, string> = {
-  0x00: 'start',
-  0x01: 'endTurn',
-  0x02: 'pause',
-  0x03: 'restart',
-};
+export function decodeMessage(data: Buffer): PersonaPlexMessage {
+  const message = decodeProtocolMessage(data);
+  return message.type === 'audio' ? { type: 'audio', data: toBuffer(message.data) } : message;
+}
 
-function decodeControlAction(code: number | undefined): string {
-  return ControlActions[code ?? -1] ?? 'unknown';
+/**
+ * View an encoded message as a Buffer without copying
+ */
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
 }
@@ -0,0 +1,328 @@
+/**
+ * Warm PersonaPlex Connection Pool
+ *
+ * Opening a PersonaPlex conversation (connect + handshake, with retries while
+ * the model loads) can take seconds, which the caller hears as dead air. This
+ * pool keeps handshaked conversations ready per persona and hands them to new
+ * sessions instantly:
+ * - Connections are keyed by their prompts and sampling settings, so any
+ *   persona with identical settings can use them
+ * - Idle connections are pinged on an interval and dropped when they go quiet
+ * - A warm conversation occupies a PersonaPlex slot, so the pool only fills
+ *   capacity no session is using, and gives a slot back when a session needs
+ *   a persona that is not warm
+ */
+
+import { EventEmitter } from 'events';
+import { PersonaPlexClient } from './client.js';
+import type { BackendPool } from './backend-pool.js';
+import type { PersonaPlexConfig } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('warm-pool');
+
+/**
+ * A pre-handshaked conversation handed to a session
+ */
+export interface WarmConnection {
+  /** Connected client; the session now owns it */
+  client: PersonaPlexClient;
+  /** Backend pool holding the lease for this connection (null without a pool) */
+  backendPool: BackendPool | null;
+  /** Leased backend URL (null without a pool) */
+  backendUrl: string | null;
+}
+
+/**
+ * Warm pool options
+ */
+export interface WarmConnectionPoolOptions {
+  /** Idle connections to keep per target */
+  size: number;
+  /** PersonaPlex settings to keep warm (re-read on every refill, so persona reloads apply) */
+  targets: () => PersonaPlexConfig[];
+  /** PersonaPlex conversations not used by sessions (warm connections included) */
+  capacity: () => number;
+  /** Lease backends from this pool instead of connecting to each target's `url` */
+  backendPool?: BackendPool | null;
+  /** Interval between keepalive pings and refills in ms (default: 15000) */
+  keepaliveInterval?: number;
+  /** Time allowed for a warm handshake in ms (default: 15000) */
+  connectTimeout?: number;
+}
+
+/**
+ * Warm pool statistics
+ */
+export interface WarmConnectionPoolStats {
+  /** Sessions that got a warm connection */
+  hits: number;
+  /** Sessions that had to connect on demand */
+  misses: number;
+  /** Connections waiting for a session */
+  idle: number;
+  /** Warm handshakes in progress */
+  connecting: number;
+}
+
+/**
+ * WarmConnectionPool events
+ */
+export interface WarmConnectionPoolEvents {
+  /** A session was given a warm connection */
+  hit: [stats: WarmConnectionPoolStats];
+  /** No warm connection matched a session */
+  miss: [stats: WarmConnectionPoolStats];
+}
+
+interface IdleConnection extends WarmConnection {
+  key: string;
+  createdAt: number;
+  onDisconnected: () => void;
+}
+
+/**
+ * Pool of pre-connected PersonaPlex conversations
+ *
+ * @example
+ * ```typescript
+ * const warmPool = new WarmConnectionPool({
+ *   size: 1,
+ *   targets: () => [config.personaplex],
+ *   capacity: () => sessions.maxConcurrent - sessions.activeCount,
+ * });
+ * warmPool.start();
+ *
+ * await bot.startSession({ warmPool }); // uses a warm connection when one matches
+ * ```
+ */
+export class WarmConnectionPool extends EventEmitter<WarmConnectionPoolEvents> {
+  private readonly size: number;
+  private readonly targets: () => PersonaPlexConfig[];
+  private readonly capacity: () => number;
+  private readonly backendPool: BackendPool | null;
+  private readonly keepaliveInterval: number;
+  private readonly connectTimeout: number;
+  private readonly idle: IdleConnection[] = [];
+  private readonly connecting = new Map<string, number>();
+  private timer: NodeJS.Timeout | null = null;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(options: WarmConnectionPoolOptions) {
+    super();
+    this.size = Math.max(0, options.size);
+    this.targets = options.targets;
+    this.capacity = options.capacity;
+    this.backendPool = options.backendPool ?? null;
+    this.keepaliveInterval = options.keepaliveInterval ?? 15000;
+    this.connectTimeout = options.connectTimeout ?? 15000;
+  }
+
+  /**
+   * Start filling the pool and pinging idle connections
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.refill();
+    this.timer = setInterval(() => void this.maintain(), this.keepaliveInterval);
+  }
+
+  /**
+   * Stop maintenance and close idle connections
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await Promise.all(this.idle.splice(0).map((connection) => this.discard(connection)));
+  }
+
+  /**
+   * Re-evaluate capacity now (call when a session ends or the limit changes)
+   */
+  refresh(): void {
+    void this.shrinkToCapacity().then(() => this.refill());
+  }
+
+  /**
+   * Take a warm connection matching the session's settings
+   *
+   * On a miss, an idle connection for another persona is closed if that is the
+   * only way to free a PersonaPlex slot for the on-demand connect.
+   *
+   * @returns The connection (now owned by the caller), or null on a miss
+   */
+  async take(config: PersonaPlexConfig): Promise<WarmConnection | null> {
+    const key = connectionKey(config);
+    const index = this.idle.findIndex((connection) => connection.key === key && connection.client.connected);
+
+    if (index !== -1) {
+      const [connection] = this.idle.splice(index, 1);
+      connection!.client.off('disconnected', connection!.onDisconnected);
+      this.hits++;
+      logger.info(this.stats(), 'Warm connection hit');
+      this.emit('hit', this.stats());
+      // Replace it in the background
+      this.refill();
+      return { client: connection!.client, backendPool: connection!.backendPool, backendUrl: connection!.backendUrl };
+    }
+
+    this.misses++;
+    logger.info(this.stats(), 'Warm connection miss');
+    this.emit('miss', this.stats());
+    await this.shrinkToCapacity();
+    return null;
+  }
+
+  /**
+   * Get hit/miss counts and pool size
+   */
+  stats(): WarmConnectionPoolStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      idle: this.idle.length,
+      connecting: [...this.connecting.values()].reduce((sum, count) => sum + count, 0),
+    };
+  }
+
+  /**
+   * Ping idle connections, drop dead or stale ones, then refill
+   */
+  private async maintain(): Promise<void> {
+    const keys = new Set(this.targets().map(connectionKey));
+
+    await Promise.all([...this.idle].map(async (connection) => {
+      if (!keys.has(connection.key)) {
+        // Persona settings changed or the persona is no longer warmed
+        this.remove(connection);
+        await this.discard(connection);
+        return;
+      }
+      try {
+        await connection.client.ping();
+      } catch (error) {
+        logger.warn({ err: error, backend: connection.backendUrl }, 'Warm connection failed keepalive');
+        this.remove(connection);
+        await this.discard(connection);
+      }
+    }));
+
+    await this.shrinkToCapacity();
+    this.refill();
+  }
+
+  /**
+   * Open connections until each target has `size` idle ones, within free capacity
+   */
+  private refill(): void {
+    for (const config of this.targets()) {
+      const key = connectionKey(config);
+      const have = this.idle.filter((connection) => connection.key === key).length + (this.connecting.get(key) ?? 0);
+
+      for (let i = have; i < this.size; i++) {
+        if (this.held() >= this.capacity()) {
+          return;
+        }
+        void this.open(key, config);
+      }
+    }
+  }
+
+  /**
+   * Open one warm connection
+   */
+  private async open(key: string, config: PersonaPlexConfig): Promise<void> {
+    const backendUrl = this.backendPool ? this.backendPool.acquire() : null;
+    if (this.backendPool && !backendUrl) {
+      return;
+    }
+
+    this.connecting.set(key, (this.connecting.get(key) ?? 0) + 1);
+    const client = new PersonaPlexClient({
+      config: { ...config, url: backendUrl ?? config.url },
+      maxReconnectAttempts: 0,
+      connectTimeout: this.connectTimeout,
+    });
+    // Errors surface through connect() and keepalive; avoid unhandled 'error' events
+    client.on('error', () => {});
+
+    try {
+      await client.connect();
+      if (backendUrl) this.backendPool?.markHealthy(backendUrl);
+    } catch (error) {
+      logger.warn({ err: error, backend: backendUrl ?? config.url }, 'Warm connection failed');
+      if (backendUrl) {
+        this.backendPool?.markUnhealthy(backendUrl, error instanceof Error ? error : new Error(String(error)));
+        this.backendPool?.release(backendUrl);
+      }
+      await client.close();
+      return;
+    } finally {
+      this.connecting.set(key, (this.connecting.get(key) ?? 1) - 1);
+    }
+
+    const connection: IdleConnection = {
+      key,
+      client,
+      backendPool: this.backendPool,
+      backendUrl,
+      createdAt: Date.now(),
+      onDisconnected: () => {
+        this.remove(connection);
+        void this.discard(connection);
+      },
+    };
+    client.once('disconnected', connection.onDisconnected);
+    this.idle.push(connection);
+    logger.debug({ backend: backendUrl ?? config.url, idle: this.idle.length }, 'Warm connection ready');
+
+    // Sessions may have claimed the capacity while the handshake ran
+    await this.shrinkToCapacity();
+  }
+
+  /**
+   * Close the oldest idle connections while the pool holds more than the free capacity
+   */
+  private async shrinkToCapacity(): Promise<void> {
+    while (this.idle.length > 0 && this.held() > this.capacity()) {
+      const oldest = this.idle.shift()!;
+      logger.debug({ backend: oldest.backendUrl }, 'Closing warm connection to free a PersonaPlex slot');
+      await this.discard(oldest);
+    }
+  }
+
+  /**
+   * Connections counted against PersonaPlex capacity
+   */
+  private held(): number {
+    return this.idle.length + this.stats().connecting;
+  }
+
+  private remove(connection: IdleConnection): void {
+    const index = this.idle.indexOf(connection);
+    if (index !== -1) {
+      this.idle.splice(index, 1);
+    }
+  }
+
+  private async discard(connection: IdleConnection): Promise<void> {
+    connection.client.off('disconnected', connection.onDisconnected);
+    if (connection.backendUrl) {
+      connection.backendPool?.release(connection.backendUrl);
+    }
+    await connection.client.close();
+  }
+}
+
+/**
+ * Connections are interchangeable when the conversation settings match
+ */
+function connectionKey(config: PersonaPlexConfig): string {
+  return JSON.stringify([config.url, config.voicePrompt, config.textPrompt, config.sampling ?? {}]);
+}
@@ -0,0 +1,9 @@
+/**
+ * Persona selection and registry module
+ */
+
+export { selectPersona, findPersona, getPersonaOverride } from './select.js';
+export type { PersonaSelectionContext, PersonaResolver } from './select.js';
+export { PersonaRegistry } from './registry.js';
+export type { Persona, PersonaRegistryOptions, PersonaRegistryEvents } from './registry.js';
+export type { PersonaDefinition, PersonaLimits, PersonasConfig } from '../config.js';
@@ -0,0 +1,247 @@
+/**
+ * Persona Registry
+ *
+ * Loads personas from a directory of YAML/JSON files and reloads them when
+ * the directory changes. Each file holds one persona or a list of them:
+ *
+ * ```yaml
+ * id: support
+ * name: Support desk
+ * voicePrompt: NATF2.pt
+ * textPrompt: You are a patient support agent for Acme.
+ * greeting: Thanks for calling Acme support.
+ * sampling:
+ *   textTemperature: 0.6
+ * limits:
+ *   maxConcurrent: 2
+ * numbers: ["+15551234567"]
+ * ```
+ *
+ * A file that fails validation is reported and, if it loaded before, keeps
+ * its last good personas, so a typo during an edit never drops a live persona.
+ */
+
+import { EventEmitter } from 'events';
+import { watch, type FSWatcher } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { validatePersonaDefinition, type PersonaDefinition } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('persona-registry');
+
+const PERSONA_FILE_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+/** Editors write files in several steps; wait for the burst to settle */
+const RELOAD_DEBOUNCE_MS = 200;
+
+/**
+ * A persona loaded from a file
+ */
+export interface Persona extends PersonaDefinition {
+  /** Unique persona id (used in `?persona=`, stream parameters and number mappings) */
+  id: string;
+  /** Dialed numbers (E.164) that select this persona */
+  numbers?: string[];
+  /** File the persona was loaded from */
+  source: string;
+}
+
+/**
+ * Persona registry options
+ */
+export interface PersonaRegistryOptions {
+  /** Directory containing persona files */
+  directory: string;
+  /** Reload when files change (default: true) */
+  watch?: boolean;
+}
+
+/**
+ * PersonaRegistry events
+ */
+export interface PersonaRegistryEvents {
+  /** Personas were (re)loaded */
+  reload: [personas: Persona[]];
+  /** A persona file failed validation (or defined a duplicate id) */
+  invalid: [error: Error, file: string];
+}
+
+/**
+ * Registry of personas backed by a config directory
+ *
+ * @example
+ * ```typescript
+ * const registry = new PersonaRegistry({ directory: './personas' });
+ * await registry.load();
+ *
+ * registry.get('support'); // { id: 'support', textPrompt: '...', ... }
+ * registry.on('reload', (personas) => console.log(personas.length, 'personas'));
+ *
+ * // On shutdown
+ * registry.close();
+ * ```
+ */
+export class PersonaRegistry extends EventEmitter<PersonaRegistryEvents> {
+  private readonly directory: string;
+  private readonly watchEnabled: boolean;
+  private readonly files = new Map<string, Persona[]>();
+  private personas = new Map<string, Persona>();
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: PersonaRegistryOptions) {
+    super();
+    this.directory = path.resolve(options.directory);
+    this.watchEnabled = options.watch ?? true;
+  }
+
+  /**
+   * Load all persona files and start watching the directory
+   *
+   * @throws Error if the directory cannot be read
+   */
+  async load(): Promise<void> {
+    await this.reload();
+
+    if (this.watchEnabled && !this.watcher) {
+      this.watcher = watch(this.directory, () => this.scheduleReload());
+      this.watcher.on('error', (error) => logger.error({ err: error }, 'Persona directory watch failed'));
+    }
+  }
+
+  /**
+   * Stop watching the directory
+   */
+  close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Get a persona by id
+   */
+  get(id: string): Persona | null {
+    return this.personas.get(id) ?? null;
+  }
+
+  /**
+   * Get all personas, sorted by id
+   */
+  list(): Persona[] {
+    return [...this.personas.values()].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Dialed number to persona id for every persona that lists numbers
+   */
+  numbers(): Record<string, string> {
+    const numbers: Record<string, string> = {};
+    for (const persona of this.personas.values()) {
+      for (const number of persona.numbers ?? []) {
+        numbers[number] = persona.id;
+      }
+    }
+    return numbers;
+  }
+
+  /**
+   * Re-read the directory; files that fail keep their previous personas
+   */
+  async reload(): Promise<void> {
+    const entries = await readdir(this.directory);
+    const names = entries
+      .filter((name) => PERSONA_FILE_EXTENSIONS.has(path.extname(name).toLowerCase()))
+      .sort();
+
+    // Forget deleted files
+    for (const file of [...this.files.keys()]) {
+      if (!names.includes(file)) {
+        this.files.delete(file);
+      }
+    }
+
+    for (const name of names) {
+      try {
+        this.files.set(name, await this.loadFile(name));
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        logger.error({ file: name, err }, this.files.has(name)
+          ? 'Invalid persona file, keeping previous version'
+          : 'Invalid persona file, skipped');
+        this.emit('invalid', err, name);
+      }
+    }
+
+    this.personas = this.index();
+    logger.info({ count: this.personas.size, directory: this.directory }, 'Personas loaded');
+    this.emit('reload', this.list());
+  }
+
+  /**
+   * Parse and validate one persona file
+   */
+  private async loadFile(name: string): Promise<Persona[]> {
+    const content = await readFile(path.join(this.directory, name), 'utf8');
+    const parsed: unknown = path.extname(name).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+    const items = Array.isArray(parsed) ? parsed : [parsed];
+
+    return items.map((item, index) => {
+      const label = items.length > 1 ? `${name}[${index}]` : name;
+      const record = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+
+      const id = record['id'];
+      if (typeof id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(id)) {
+        throw new Error(`Invalid persona ${label}: id must be letters, digits, "-" or "_"`);
+      }
+
+      const numbers = record['numbers'];
+      if (numbers !== undefined && (!Array.isArray(numbers) || numbers.some((n) => typeof n !== 'string'))) {
+        throw new Error(`Invalid persona ${label}: numbers must be a list of strings`);
+      }
+
+      return {
+        ...validatePersonaDefinition(item, label),
+        id,
+        numbers: numbers as string[] | undefined,
+        source: name,
+      };
+    });
+  }
+
+  /**
+   * Build the id index; on duplicate ids the first file (by name) wins
+   */
+  private index(): Map<string, Persona> {
+    const personas = new Map<string, Persona>();
+
+    for (const [file, filePersonas] of [...this.files.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      for (const persona of filePersonas) {
+        const existing = personas.get(persona.id);
+        if (existing) {
+          const error = new Error(`Duplicate persona id "${persona.id}" (already defined in ${existing.source})`);
+          logger.error({ file, err: error }, 'Duplicate persona ignored');
+          this.emit('invalid', error, file);
+          continue;
+        }
+        personas.set(persona.id, persona);
+      }
+    }
+
+    return personas;
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload().catch((error) => logger.error({ err: error }, 'Failed to reload personas'));
+    }, RELOAD_DEBOUNCE_MS);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Per-call persona selection
+ *
+ * `/twiml` picks a persona name for each inbound call and embeds it in the
+ * stream's `<Parameter>`s; the media handler reads it back from the `start`
+ * message and turns it into a PersonaPlex config override for the session.
+ */
+
+import type { PersonaDefinition, PersonaPlexConfig, PersonasConfig } from '../config.js';
+
+/**
+ * What is known about a call when choosing its persona
+ */
+export interface PersonaSelectionContext {
+  /** Dialed number (Twilio `To`) */
+  to?: string;
+  /** Caller number (Twilio `From`) */
+  from?: string;
+  /** Twilio Call SID */
+  callSid?: string;
+  /** Query string parameters of the webhook request */
+  query: Record<string, string | undefined>;
+}
+
+/**
+ * Custom persona lookup (e.g., from a CRM)
+ *
+ * @returns Persona name, or null to fall back to the built-in rules
+ */
+export type PersonaResolver = (context: PersonaSelectionContext) => string | null | Promise<string | null>;
+
+/**
+ * Choose the persona for a call
+ *
+ * Order: lookup hook, `?persona=` query parameter, dialed number mapping, configured default.
+ *
+ * @returns Persona name, or null to use the global prompts
+ */
+export async function selectPersona(
+  personas: PersonasConfig | undefined,
+  context: PersonaSelectionContext,
+  resolver?: PersonaResolver,
+): Promise<string | null> {
+  const fromHook = resolver ? await resolver(context) : null;
+  if (fromHook) {
+    return fromHook;
+  }
+
+  const fromQuery = context.query['persona'];
+  if (fromQuery) {
+    return fromQuery;
+  }
+
+  const fromNumber = context.to ? personas?.numbers[context.to] : undefined;
+  return fromNumber ?? personas?.defaultPersona ?? null;
+}
+
+/**
+ * Look up a persona's settings by name
+ */
+export function findPersona(personas: PersonasConfig | undefined, name: string): PersonaDefinition | null {
+  return personas?.definitions[name] ?? null;
+}
+
+/**
+ * Build the PersonaPlex config override for a persona
+ *
+ * @returns Override to pass to `VoiceBot.startSession`, or null if the persona is unknown
+ */
+export function getPersonaOverride(
+  personas: PersonasConfig | undefined,
+  name: string,
+): Partial<PersonaPlexConfig> | null {
+  const definition = findPersona(personas, name);
+  if (!definition) {
+    return null;
+  }
+
+  const override: Partial<PersonaPlexConfig> = {};
+  if (definition.voicePrompt) override.voicePrompt = definition.voicePrompt;
+  if (definition.textPrompt) override.textPrompt = definition.textPrompt;
+  if (definition.sampling) override.sampling = definition.sampling;
+  return override;
+}
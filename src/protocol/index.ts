@@ -0,0 +1,5 @@
+/**
+ * Shared PersonaPlex protocol module (used by the bridge and the React client)
+ */
+
+export * from './messages.js';
@@ -0,0 +1,189 @@
+/**
+ * PersonaPlex WebSocket Protocol (isomorphic)
+ *
+ * Message format (binary):
+ * - Byte 0: Message type
+ * - Bytes 1+: Payload
+ *
+ * Works on plain `Uint8Array`s with no Node or DOM dependencies, so the
+ * bridge (`src/personaplex/protocol.ts`) and the React client
+ * (`personaplex/client`) share one encoder and decoder.
+ *
+ * The decoder never throws: malformed messages decode to `invalid` and
+ * unknown message types to `unknown`, so callers decide what to log or drop.
+ */
+
+/**
+ * Message type identifiers
+ */
+export const MessageType = {
+  /** Connection handshake (server → client): version byte, model byte */
+  HANDSHAKE: 0x00,
+  /** Audio data (bidirectional, Opus encoded) */
+  AUDIO: 0x01,
+  /** Text transcript (server → client) */
+  TEXT: 0x02,
+  /** Control messages: one action byte */
+  CONTROL: 0x03,
+  /** Metadata: UTF-8 JSON object */
+  METADATA: 0x04,
+  /** Error: UTF-8 message */
+  ERROR: 0x05,
+  /** Ping/keepalive */
+  PING: 0x06,
+} as const;
+
+export type MessageTypeValue = (typeof MessageType)[keyof typeof MessageType];
+
+/**
+ * Control message action codes (payload byte of a CONTROL message)
+ */
+export const ControlAction = {
+  /** Start (or resume) the conversation */
+  start: 0x00,
+  /** The current speaker finished their turn */
+  endTurn: 0x01,
+  /** Pause the conversation */
+  pause: 0x02,
+  /** Restart the conversation context */
+  restart: 0x03,
+} as const;
+
+export type ControlActionName = keyof typeof ControlAction;
+
+/** Handshake protocol versions this codebase understands */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [0];
+
+/**
+ * Server information sent in METADATA messages (fields present depend on the server build)
+ */
+export interface PersonaPlexMetadata {
+  text_temperature?: number;
+  text_topk?: number;
+  audio_temperature?: number;
+  audio_topk?: number;
+  pad_mult?: number;
+  repetition_penalty?: number;
+  repetition_penalty_context?: number;
+  lm_model_file?: string;
+  instance_name?: string;
+  build_info?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * A well-formed protocol message (everything the encoder accepts)
+ */
+export type ProtocolMessage =
+  | { type: 'handshake'; version: number; model: number }
+  | { type: 'audio'; data: Uint8Array }
+  | { type: 'text'; data: string }
+  | { type: 'control'; action: ControlActionName }
+  | { type: 'metadata'; data: PersonaPlexMetadata }
+  | { type: 'error'; data: string }
+  | { type: 'ping' };
+
+/**
+ * Result of decoding a received message
+ */
+export type DecodedMessage =
+  | ProtocolMessage
+  /** Known message type with a malformed payload (e.g., unknown control code, non-JSON metadata) */
+  | { type: 'invalid'; rawType: number; reason: string }
+  /** Unknown message type byte (-1 for an empty message) */
+  | { type: 'unknown'; rawType: number };
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Encode a message for sending over the WebSocket
+ */
+export function encodeMessage(message: ProtocolMessage): Uint8Array {
+  switch (message.type) {
+    case 'handshake':
+      return new Uint8Array([MessageType.HANDSHAKE, message.version, message.model]);
+    case 'audio':
+      return withType(MessageType.AUDIO, message.data);
+    case 'text':
+      return withType(MessageType.TEXT, textEncoder.encode(message.data));
+    case 'control':
+      return new Uint8Array([MessageType.CONTROL, ControlAction[message.action]]);
+    case 'metadata':
+      return withType(MessageType.METADATA, textEncoder.encode(JSON.stringify(message.data)));
+    case 'error':
+      return withType(MessageType.ERROR, textEncoder.encode(message.data));
+    case 'ping':
+      return new Uint8Array([MessageType.PING]);
+  }
+}
+
+/**
+ * Decode a received message
+ */
+export function decodeMessage(data: Uint8Array): DecodedMessage {
+  const messageType = data[0];
+  if (messageType === undefined) {
+    return { type: 'unknown', rawType: -1 };
+  }
+
+  const payload = data.subarray(1);
+
+  switch (messageType) {
+    case MessageType.HANDSHAKE:
+      // Servers that send a bare handshake byte speak version 0 of model 0
+      return { type: 'handshake', version: payload[0] ?? 0, model: payload[1] ?? 0 };
+
+    case MessageType.AUDIO:
+      // Copy so the caller owns (and may transfer) the buffer
+      return { type: 'audio', data: payload.slice() };
+
+    case MessageType.TEXT:
+      return { type: 'text', data: textDecoder.decode(payload) };
+
+    case MessageType.CONTROL: {
+      const action = decodeControlAction(payload[0]);
+      return action
+        ? { type: 'control', action }
+        : { type: 'invalid', rawType: messageType, reason: `Unknown control code ${payload[0] ?? 'none'}` };
+    }
+
+    case MessageType.METADATA:
+      return decodeMetadata(payload);
+
+    case MessageType.ERROR:
+      return { type: 'error', data: textDecoder.decode(payload) };
+
+    case MessageType.PING:
+      return { type: 'ping' };
+
+    default:
+      return { type: 'unknown', rawType: messageType };
+  }
+}
+
+function withType(messageType: MessageTypeValue, payload: Uint8Array): Uint8Array {
+  const message = new Uint8Array(payload.length + 1);
+  message[0] = messageType;
+  message.set(payload, 1);
+  return message;
+}
+
+function decodeControlAction(code: number | undefined): ControlActionName | null {
+  const entry = Object.entries(ControlAction).find(([, value]) => value === code);
+  return entry ? entry[0] as ControlActionName : null;
+}
+
+function decodeMetadata(payload: Uint8Array): DecodedMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(textDecoder.decode(payload));
+  } catch (error) {
+    return { type: 'invalid', rawType: MessageType.METADATA, reason: `Metadata is not JSON: ${(error as Error).message}` };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { type: 'invalid', rawType: MessageType.METADATA, reason: 'Metadata is not a JSON object' };
+  }
+  return { type: 'metadata', data: data as PersonaPlexMetadata };
+}
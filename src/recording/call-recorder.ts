@@ -0,0 +1,377 @@
+/**
+ * Call Recorder
+ *
+ * Records a call as a stereo 16-bit WAV file: the caller on the left channel
+ * and the bot on the right, on one timeline that starts when the recorder
+ * does. Gaps in either channel are filled with silence.
+ *
+ * - Caller audio is placed by its Twilio media timestamp, so dropped packets
+ *   leave silence instead of shifting the rest of the call
+ * - Bot audio is placed when it plays: Twilio plays it back to back, so each
+ *   chunk follows the previous one or starts now, whichever is later
+ *
+ * Audio is written to disk about once a second (the caller channel lags by
+ * `jitterMs` so late packets still land in place), so memory use does not
+ * grow with the call length. On stop() the WAV header is completed and a
+ * JSON sidecar with the call metadata is written next to the file.
+ */
+
+import { EventEmitter } from 'events';
+import { mkdir, open, writeFile, type FileHandle } from 'fs/promises';
+import { join } from 'path';
+import { createResampler, createWavHeader, encodePcm16, TWILIO_SAMPLE_RATE, WAV_HEADER_SIZE, type Resampler } from '../audio/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('call-recorder');
+
+/** Caller audio within this distance of where the channel ends continues it (covers timestamp jitter) */
+const CONTIGUOUS_TOLERANCE_MS = 60;
+const CHANNELS = ['caller', 'bot'] as const;
+
+/**
+ * Call recorder options
+ */
+export interface CallRecorderOptions {
+  /** Directory for the WAV file and its sidecar */
+  directory: string;
+  /** Call identifier, used in the file name (e.g., Twilio Call SID) */
+  callId: string;
+  /** Sample rate of the WAV file (default: 8000) */
+  sampleRate?: number;
+  /** Sample rate of the caller audio (default: 8000) */
+  callerSampleRate?: number;
+  /** Sample rate of the bot audio (default: 8000) */
+  botSampleRate?: number;
+  /** How far the caller channel may lag before late audio is dropped (default: 2000ms) */
+  jitterMs?: number;
+  /** Interval between writes to disk (default: 1000ms) */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Where a finished recording was written
+ */
+export interface RecordingResult {
+  /** Path of the stereo WAV file */
+  wavPath: string;
+  /** Path of the JSON metadata sidecar */
+  metadataPath: string;
+  /** Recording length in ms */
+  durationMs: number;
+}
+
+/**
+ * CallRecorder events
+ */
+export interface CallRecorderEvents {
+  /** Writing to disk failed; the recording is abandoned */
+  error: [error: Error];
+}
+
+/**
+ * Samples of one channel not yet written to disk
+ */
+class PendingChannel {
+  private data = new Float32Array(0);
+  private length = 0;
+  /** Recording position (samples) of the first pending sample */
+  private origin = 0;
+
+  /** Recording position just past the last sample */
+  get end(): number {
+    return this.origin + this.length;
+  }
+
+  /**
+   * Write samples at a recording position, filling any gap with silence and
+   * replacing anything already pending from that position on
+   *
+   * @returns Samples that landed before the pending range and were dropped
+   */
+  write(position: number, pcm: Float32Array): number {
+    const skip = Math.max(0, this.origin - position);
+    if (skip >= pcm.length) {
+      return pcm.length;
+    }
+    const start = Math.max(position, this.origin) - this.origin;
+    const samples = pcm.subarray(skip);
+
+    this.reserve(start + samples.length);
+    if (start > this.length) {
+      this.data.fill(0, this.length, start);
+    }
+    this.data.set(samples, start);
+    this.length = start + samples.length;
+    return skip;
+  }
+
+  /**
+   * Drop pending samples from a recording position on
+   */
+  truncate(position: number): void {
+    this.length = Math.max(0, Math.min(this.length, position - this.origin));
+  }
+
+  /**
+   * Remove and return the samples before a recording position (silence past the end)
+   */
+  take(position: number): Float32Array {
+    const count = Math.max(0, position - this.origin);
+    const taken = new Float32Array(count);
+    taken.set(this.data.subarray(0, Math.min(count, this.length)));
+
+    const kept = Math.max(0, this.length - count);
+    this.data.copyWithin(0, Math.min(count, this.length), this.length);
+    this.length = kept;
+    this.origin += count;
+    return taken;
+  }
+
+  private reserve(size: number): void {
+    if (size <= this.data.length) {
+      return;
+    }
+    const grown = new Float32Array(Math.max(size, this.data.length * 2));
+    grown.set(this.data.subarray(0, this.length));
+    this.data = grown;
+  }
+}
+
+/**
+ * Stereo WAV recorder for one call
+ *
+ * @example
+ * ```typescript
+ * const recorder = new CallRecorder({ directory: './recordings', callId: callSid });
+ * await recorder.start();
+ *
+ * twilioHandler.on('audio', (pcm, timestamp) => recorder.writeCaller(pcm, timestamp));
+ * bot.on('audio', (pcm) => recorder.writeBot(pcm));
+ * bot.on('bargeIn', () => recorder.clearBot());
+ *
+ * const result = await recorder.stop({ callSid, persona: 'support' });
+ * ```
+ */
+export class CallRecorder extends EventEmitter<CallRecorderEvents> {
+  private readonly directory: string;
+  private readonly callId: string;
+  private readonly sampleRate: number;
+  private readonly callerResampler: Resampler | null;
+  private readonly botResampler: Resampler | null;
+  private readonly jitterSamples: number;
+  private readonly flushIntervalMs: number;
+  private readonly caller = new PendingChannel();
+  private readonly bot = new PendingChannel();
+  private file: FileHandle | null = null;
+  private fileName: string = '';
+  private startedAt: Date | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  /** Pending disk writes, run one after another */
+  private writes: Promise<void> = Promise.resolve();
+  /** Samples per channel written to disk */
+  private written: number = 0;
+  private droppedCallerSamples: number = 0;
+  private failed: boolean = false;
+
+  constructor(options: CallRecorderOptions) {
+    super();
+    this.directory = options.directory;
+    this.callId = options.callId;
+    this.sampleRate = options.sampleRate ?? TWILIO_SAMPLE_RATE;
+    this.jitterSamples = Math.round((options.jitterMs ?? 2000) * this.sampleRate / 1000);
+    this.flushIntervalMs = options.flushIntervalMs ?? 1000;
+
+    const callerRate = options.callerSampleRate ?? TWILIO_SAMPLE_RATE;
+    const botRate = options.botSampleRate ?? TWILIO_SAMPLE_RATE;
+    this.callerResampler = callerRate === this.sampleRate ? null : createResampler(callerRate, this.sampleRate);
+    this.botResampler = botRate === this.sampleRate ? null : createResampler(botRate, this.sampleRate);
+  }
+
+  /**
+   * Open the WAV file (creating the directory if needed) and start the recording timeline
+   *
+   * @throws Error if the file cannot be created
+   */
+  async start(): Promise<void> {
+    if (this.startedAt) {
+      throw new Error('Recorder already started');
+    }
+
+    this.startedAt = new Date();
+    const stamp = this.startedAt.toISOString().replace(/[:.]/g, '-');
+    this.fileName = `${stamp}_${this.callId.replace(/[^\w-]/g, '_')}`;
+    await mkdir(this.directory, { recursive: true });
+    this.file = await open(join(this.directory, `${this.fileName}.wav`), 'w');
+    // Sizes are filled in on stop()
+    await this.file.write(createWavHeader(this.sampleRate, CHANNELS.length, 0));
+
+    this.flushTimer = setInterval(() => this.flush(this.livePosition() - this.jitterSamples), this.flushIntervalMs);
+    logger.info({ callId: this.callId, file: `${this.fileName}.wav` }, 'Recording started');
+  }
+
+  /**
+   * Add caller audio
+   *
+   * @param pcm - PCM Float32 at callerSampleRate
+   * @param timestampMs - Media timestamp (ms since the stream started), default: right after the previous chunk
+   */
+  writeCaller(pcm: Float32Array, timestampMs?: number): void {
+    if (!this.isRecording) {
+      return;
+    }
+    const samples = this.callerResampler ? this.callerResampler.process(pcm) : pcm;
+
+    let position = this.caller.end;
+    if (timestampMs !== undefined) {
+      const stamped = Math.round(timestampMs * this.sampleRate / 1000);
+      const tolerance = CONTIGUOUS_TOLERANCE_MS * this.sampleRate / 1000;
+      if (Math.abs(stamped - position) > tolerance) {
+        position = stamped;
+      }
+    }
+
+    this.droppedCallerSamples += this.caller.write(position, samples);
+  }
+
+  /**
+   * Add bot audio as it is queued for playback
+   *
+   * @param pcm - PCM Float32 at botSampleRate
+   */
+  writeBot(pcm: Float32Array): void {
+    if (!this.isRecording) {
+      return;
+    }
+    const samples = this.botResampler ? this.botResampler.process(pcm) : pcm;
+    this.bot.write(Math.max(this.bot.end, this.livePosition()), samples);
+  }
+
+  /**
+   * Bot audio queued for playback was cleared (e.g., barge-in); drop what the caller never heard
+   */
+  clearBot(): void {
+    if (!this.isRecording) {
+      return;
+    }
+    this.bot.truncate(this.livePosition());
+  }
+
+  /**
+   * Finish the recording and write its metadata sidecar
+   *
+   * @param metadata - Call details for the sidecar (e.g., call SID, persona, transcript)
+   * @returns Where the recording was written, or null if it was never started or failed
+   */
+  async stop(metadata: Record<string, unknown> = {}): Promise<RecordingResult | null> {
+    if (!this.startedAt || !this.file) {
+      return null;
+    }
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // Queued bot audio past this point was never played
+    const live = this.livePosition();
+    this.bot.truncate(live);
+    this.flush(Math.max(this.caller.end, this.bot.end));
+
+    const file = this.file;
+    this.file = null;
+    const endedAt = new Date();
+    await this.enqueue(async () => {
+      await file.write(createWavHeader(this.sampleRate, CHANNELS.length, this.written * CHANNELS.length * 2), 0, WAV_HEADER_SIZE, 0);
+    });
+    await file.close().catch(() => undefined);
+    if (this.failed) {
+      return null;
+    }
+
+    const durationMs = Math.round(this.written * 1000 / this.sampleRate);
+    const result: RecordingResult = {
+      wavPath: join(this.directory, `${this.fileName}.wav`),
+      metadataPath: join(this.directory, `${this.fileName}.json`),
+      durationMs,
+    };
+
+    const sidecar = {
+      ...metadata,
+      callId: this.callId,
+      file: `${this.fileName}.wav`,
+      startedAt: this.startedAt.toISOString(),
+      endedAt: endedAt.toISOString(),
+      durationMs,
+      sampleRate: this.sampleRate,
+      channels: CHANNELS,
+      droppedCallerMs: Math.round(this.droppedCallerSamples * 1000 / this.sampleRate),
+    };
+    try {
+      await writeFile(result.metadataPath, JSON.stringify(sidecar, null, 2));
+    } catch (error) {
+      this.fail(error);
+      return null;
+    }
+
+    logger.info({ callId: this.callId, file: sidecar.file, durationMs }, 'Recording saved');
+    return result;
+  }
+
+  /**
+   * Whether audio is being recorded
+   */
+  get isRecording(): boolean {
+    return this.file !== null && !this.failed;
+  }
+
+  /**
+   * Recording position of the present moment, in samples
+   */
+  private livePosition(): number {
+    return this.startedAt ? Math.round((Date.now() - this.startedAt.getTime()) * this.sampleRate / 1000) : 0;
+  }
+
+  /**
+   * Write both channels to disk up to a recording position
+   */
+  private flush(position: number): void {
+    const count = position - this.written;
+    if (count <= 0 || !this.file) {
+      return;
+    }
+
+    const file = this.file;
+    const data = encodePcm16([this.caller.take(position), this.bot.take(position)]);
+    this.written = position;
+    void this.enqueue(async () => {
+      await file.write(data);
+    });
+  }
+
+  /**
+   * Run a disk write after the ones before it; the first failure abandons the recording
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.then(async () => {
+      if (this.failed) {
+        return;
+      }
+      try {
+        await write();
+      } catch (error) {
+        this.fail(error);
+      }
+    });
+    return this.writes;
+  }
+
+  private fail(error: unknown): void {
+    this.failed = true;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.error({ callId: this.callId, err }, 'Recording failed');
+    this.emit('error', err);
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Call recording module
+ */
+
+export { CallRecorder } from './call-recorder.js';
+export type { CallRecorderOptions, CallRecorderEvents, RecordingResult } from './call-recorder.js';
+export { applyRetention } from './retention.js';
+export type { RetentionPolicy } from './retention.js';
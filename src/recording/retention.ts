@@ -0,0 +1,115 @@
+/**
+ * Recording retention
+ *
+ * Deletes recordings (a WAV file and its JSON sidecar) that are older than
+ * the retention period, then the oldest finished recordings until the
+ * directory fits the size limit. A WAV file without a sidecar is still being
+ * recorded (or was cut off by a crash), so the size limit never deletes it;
+ * the age limit still does.
+ */
+
+import { readdir, stat, unlink } from 'fs/promises';
+import { join } from 'path';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('recording-retention');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long recordings are kept
+ */
+export interface RetentionPolicy {
+  /** Delete recordings older than this many days (0 keeps them forever) */
+  retentionDays: number;
+  /** Delete the oldest recordings once the directory grows past this many MB (0 for no limit) */
+  maxTotalMb: number;
+}
+
+interface StoredRecording {
+  name: string;
+  files: string[];
+  bytes: number;
+  modifiedAt: number;
+  finished: boolean;
+}
+
+/**
+ * Apply a retention policy to a recording directory
+ *
+ * @param directory - Directory the recorder writes to
+ * @param policy - Age and size limits
+ * @param now - Current time in ms (for testing)
+ * @returns Names (without extension) of the recordings deleted
+ */
+export async function applyRetention(directory: string, policy: RetentionPolicy, now: number = Date.now()): Promise<string[]> {
+  if (policy.retentionDays <= 0 && policy.maxTotalMb <= 0) {
+    return [];
+  }
+
+  const recordings = await listRecordings(directory);
+  const deleted: string[] = [];
+  const remove = async (recording: StoredRecording): Promise<void> => {
+    await Promise.all(recording.files.map((file) => unlink(join(directory, file)).catch(() => undefined)));
+    deleted.push(recording.name);
+  };
+
+  let kept = recordings;
+  if (policy.retentionDays > 0) {
+    const cutoff = now - policy.retentionDays * DAY_MS;
+    kept = [];
+    for (const recording of recordings) {
+      if (recording.modifiedAt < cutoff) {
+        await remove(recording);
+      } else {
+        kept.push(recording);
+      }
+    }
+  }
+
+  if (policy.maxTotalMb > 0) {
+    const limit = policy.maxTotalMb * 1024 * 1024;
+    let total = kept.reduce((sum, recording) => sum + recording.bytes, 0);
+    for (const recording of kept.filter((candidate) => candidate.finished)) {
+      if (total <= limit) {
+        break;
+      }
+      await remove(recording);
+      total -= recording.bytes;
+    }
+  }
+
+  if (deleted.length > 0) {
+    logger.info({ directory, deleted: deleted.length }, 'Deleted expired recordings');
+  }
+  return deleted;
+}
+
+/**
+ * Group a directory's WAV files and sidecars into recordings, oldest first
+ */
+async function listRecordings(directory: string): Promise<StoredRecording[]> {
+  const recordings = new Map<string, StoredRecording>();
+
+  for (const file of await readdir(directory)) {
+    const match = /^(.+)\.(wav|json)$/.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const info = await stat(join(directory, file)).catch(() => null);
+    if (!info?.isFile()) {
+      continue;
+    }
+
+    const name = match[1]!;
+    const recording = recordings.get(name) ?? { name, files: [], bytes: 0, modifiedAt: 0, finished: false };
+    recording.files.push(file);
+    recording.bytes += info.size;
+    recording.modifiedAt = Math.max(recording.modifiedAt, info.mtimeMs);
+    recording.finished ||= match[2] === 'json';
+    recordings.set(name, recording);
+  }
+
+  return [...recordings.values()].sort((a, b) => a.modifiedAt - b.modifiedAt);
+}
@@ -4,27 +4,196 @@
  * Fastify server that bridges Twilio Media Streams with PersonaPlex using VoiceBot.
  */
 
-import Fastify, { FastifyInstance } from 'fastify';
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import websocket from '@fastify/websocket';
 import fastifyStatic from '@fastify/static';
 import type { WebSocket } from 'ws';
 import path from 'path';
+import { createHash, timingSafeEqual } from 'crypto';
 import { fileURLToPath } from 'url';
 
-import { loadConfig, type VoiceBotConfig } from '../config.js';
+import { loadConfig, mergePersonaPlexConfig, type VoiceBotConfig, type PersonasConfig } from '../config.js';
 import { createLogger } from '../utils/logger.js';
-import { generateStreamTwiml } from '../twilio/twiml.js';
+import {
+  generateStreamTwiml,
+  generateSayTwiml,
+  generateSayAndHangupTwiml,
+  generateDialTwiml,
+  generateDequeueTwiml,
+  isTransferTarget,
+} from '../twilio/twiml.js';
 import { TwilioMediaHandler } from '../twilio/media-streams.js';
-import { VoiceBot } from '../voice-bot.js';
-import { resample, PERSONAPLEX_SAMPLE_RATE, TWILIO_SAMPLE_RATE } from '../audio/index.js';
+import { HoldPlayer } from '../twilio/hold-player.js';
+import { OutboundScheduler } from '../twilio/outbound-scheduler.js';
+import { TwilioCallControl } from '../twilio/calls.js';
+import { TwilioSmsNotifier } from '../twilio/sms.js';
+import { OutboundCallManager, type PlaceCallOptions } from '../twilio/outbound-calls.js';
+import { validateWebhookSignature, getPublicBaseUrl } from '../twilio/webhook.js';
+import { SessionManager } from '../sessions/index.js';
+import { BackendPool } from '../personaplex/backend-pool.js';
+import { WarmConnectionPool } from '../personaplex/warm-pool.js';
+import { VoiceBot, type SessionEndReason, type CallTransfer } from '../voice-bot.js';
+import {
+  selectPersona,
+  findPersona,
+  getPersonaOverride,
+  PersonaRegistry,
+  type PersonaResolver,
+} from '../personas/index.js';
+import { TWILIO_SAMPLE_RATE, DtmfDetector, loadWavFile } from '../audio/index.js';
+import { CallRecorder, applyRetention } from '../recording/index.js';
+import { fillTemplate, type Notifier } from '../triggers/index.js';
+import { DtmfMenu, type DtmfMenuAction, type DtmfMenuDefinition, type DtmfMenuResult } from '../dtmf/index.js';
 
 const logger = createLogger('server');
 
+/** How long an agent whisper waits to be fetched before it is dropped */
+const WHISPER_TTL_MS = 10 * 60 * 1000;
+
+/** End reasons that mean the bridge, not the caller, is ending the call */
+const TIMEOUT_END_REASONS: ReadonlySet<SessionEndReason> = new Set(['callerSilence', 'botSilence', 'maxDuration']);
+
+/**
+ * Server extension points
+ */
+export interface ServerOptions {
+  /** Custom persona lookup for inbound calls, consulted before the query parameter and number mapping */
+  resolvePersona?: PersonaResolver;
+}
+
+/**
+ * Shared state handed to each media stream
+ */
+interface MediaStreamContext {
+  config: VoiceBotConfig;
+  sessions: SessionManager;
+  /** Hold loop (PCM at 8kHz); the built-in chime when unset */
+  holdAudio: Float32Array | undefined;
+  /** Played while a resilient session reconnects (PCM at 8kHz); the hold loop when unset */
+  fillerAudio: Float32Array | undefined;
+  backendPool: BackendPool | null;
+  warmPool: WarmConnectionPool | null;
+  callControl: TwilioCallControl | null;
+  /** Delivers trigger notifications; null when no SMS sender is configured */
+  notifier: Notifier | null;
+  /** Current personas (env settings merged with the hot-reloaded registry) */
+  personas: () => PersonasConfig;
+  /** Live calls per persona, for per-persona concurrency limits */
+  personaCalls: Map<string, number>;
+  /** Bots of live calls by Call SID, for transfers */
+  liveCalls: Map<string, VoiceBot>;
+  /** Conversation summaries waiting to be whispered to transfer agents, by Call SID */
+  whispers: Map<string, string>;
+  /** Call SIDs of transferred callers waiting in each queue, longest-waiting first */
+  queues: Map<string, string[]>;
+  /** Public base URL of the bridge, for callbacks Twilio fetches */
+  baseUrl: string;
+}
+
 /**
  * Create configured Fastify server
  */
-export async function createServer(config?: VoiceBotConfig): Promise<FastifyInstance> {
+export async function createServer(config?: VoiceBotConfig, options: ServerOptions = {}): Promise<FastifyInstance> {
   const cfg = config ?? loadConfig();
+  const sessionConfig = cfg.sessions ?? loadConfig().sessions!;
+
+  // Balance across several PersonaPlex servers when configured
+  const backendPool = cfg.personaplex.backends?.length
+    ? new BackendPool({
+        backends: cfg.personaplex.backends.map((backend) => ({
+          url: backend.url,
+          capacity: backend.capacity ?? sessionConfig.maxConcurrent,
+        })),
+        probeConfig: { voicePrompt: cfg.personaplex.voicePrompt, textPrompt: cfg.personaplex.textPrompt },
+      })
+    : null;
+
+  // Shared view of all calls, used to enforce the PersonaPlex concurrency limit
+  const sessions = new SessionManager({
+    maxConcurrent: backendPool ? () => backendPool.totalCapacity() : sessionConfig.maxConcurrent,
+    maxQueueSize: sessionConfig.whenFull === 'reject' ? 0 : sessionConfig.maxQueueSize,
+  });
+
+  // Played while callers wait for a slot and while PersonaPlex connects
+  const holdAudio = sessionConfig.holdAudioFile
+    ? await loadWavFile(sessionConfig.holdAudioFile, TWILIO_SAMPLE_RATE)
+    : undefined;
+  const fillerAudio = cfg.resilience?.fillerAudioFile
+    ? await loadWavFile(cfg.resilience.fillerAudioFile, TWILIO_SAMPLE_RATE)
+    : holdAudio;
+
+  // Hanging up needs the REST API; without credentials the media stream is closed instead
+  const callControl = cfg.twilio ? new TwilioCallControl(cfg.twilio) : null;
+
+  // Trigger notifications go out as SMS from NOTIFY_SMS_FROM or the account's number
+  const smsFrom = cfg.notifications?.smsFrom ?? cfg.twilio?.phoneNumber;
+  const notifier = cfg.twilio && smsFrom
+    ? new TwilioSmsNotifier(cfg.twilio, { from: smsFrom, defaultTo: cfg.notifications?.smsTo })
+    : null;
+
+  // Outbound calls need a public URL for Twilio to reach the media stream and status callbacks
+  const outboundCalls = callControl && cfg.server.publicUrl
+    ? new OutboundCallManager({
+        callControl,
+        publicUrl: cfg.server.publicUrl,
+        defaultFrom: cfg.twilio?.phoneNumber,
+      })
+    : null;
+
+  // Persona files, reloaded on change; they take precedence over PERSONAS from the environment
+  const registry = cfg.personas?.directory ? new PersonaRegistry({ directory: cfg.personas.directory }) : null;
+  await registry?.load();
+  const personas = (): PersonasConfig => ({
+    ...cfg.personas,
+    definitions: {
+      ...cfg.personas?.definitions,
+      ...Object.fromEntries(registry?.list().map((persona) => [persona.id, persona]) ?? []),
+    },
+    numbers: { ...cfg.personas?.numbers, ...registry?.numbers() },
+  });
+  const personaCalls = new Map<string, number>();
+  const liveCalls = new Map<string, VoiceBot>();
+  const whispers = new Map<string, string>();
+  const queues = new Map<string, string[]>();
+
+  // Pre-connected conversations, filling only PersonaPlex slots no call is using
+  const warmConfig = cfg.warmPool;
+  const warmPool = warmConfig && warmConfig.size > 0
+    ? new WarmConnectionPool({
+        size: warmConfig.size,
+        keepaliveInterval: warmConfig.keepaliveIntervalMs,
+        backendPool,
+        capacity: () => (backendPool ? backendPool.totalCapacity() : sessionConfig.maxConcurrent) - sessions.activeCount,
+        targets: () => {
+          const current = personas();
+          const ids = warmConfig.personas.length > 0
+            ? warmConfig.personas
+            : [current.defaultPersona].filter((id): id is string => Boolean(id));
+          if (ids.length === 0) {
+            return [mergePersonaPlexConfig(cfg.personaplex)];
+          }
+          return ids
+            .map((id) => getPersonaOverride(current, id))
+            .filter((override) => override !== null)
+            .map((override) => mergePersonaPlexConfig(cfg.personaplex, override));
+        },
+      })
+    : null;
+
+  if (backendPool) {
+    // A recovered backend may free slots for queued callers
+    backendPool.on('statusChange', () => sessions.refresh());
+    backendPool.start();
+  }
+
+  if (warmPool) {
+    // A finished call frees a slot that can be warmed again
+    sessions.on('released', () => warmPool.refresh());
+    warmPool.start();
+  }
+
+  // Recordings that expired while the bridge was down
+  await pruneRecordings(cfg);
   
   const server = Fastify({
     logger: {
@@ -36,6 +205,20 @@ export async function createServer(config?: VoiceBotConfig): Promise<FastifyInst
     },
   });
 
+  server.addHook('onClose', async () => {
+    backendPool?.stop();
+    registry?.close();
+    await warmPool?.stop();
+  });
+
+  // Twilio posts webhooks as application/x-www-form-urlencoded
+  server.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (_request, body, done) => {
+    done(null, Object.fromEntries(new URLSearchParams(body as string)));
+  });
+
+  const verifyTwilioSignature = createSignatureCheck(cfg);
+  const verifyApiToken = createApiTokenCheck(cfg);
+
   // Register WebSocket plugin
   await server.register(websocket);
 
@@ -53,33 +236,344 @@ export async function createServer(config?: VoiceBotConfig): Promise<FastifyInst
     return { status: 'ok', timestamp: new Date().toISOString() };
   });
 
+  // Live and queued sessions
+  server.get('/sessions', async () => {
+    return {
+      active: sessions.activeCount,
+      queued: sessions.queuedCount,
+      sessions: sessions.list(),
+    };
+  });
+
+  // Queue position of a single session (by Call SID)
+  server.get<{ Params: { id: string } }>('/sessions/:id', async (request, reply) => {
+    const session = sessions.get(request.params.id);
+    if (!session) {
+      reply.code(404);
+      return { error: 'Session not found' };
+    }
+    return session;
+  });
+
+  // PersonaPlex backend state
+  server.get('/backends', async () => {
+    if (backendPool) {
+      return { backends: backendPool.list() };
+    }
+    return {
+      backends: [{
+        url: cfg.personaplex.url,
+        capacity: sessionConfig.maxConcurrent,
+        status: 'unknown',
+        active: sessions.activeCount,
+      }],
+    };
+  });
+
   // TwiML endpoint for Twilio webhook
-  server.all('/twiml', async (request, reply) => {
-    const host = request.headers.host ?? 'localhost:3000';
-    const protocol = request.headers['x-forwarded-proto'] ?? 'http';
-    const wsProtocol = protocol === 'https' ? 'wss' : 'ws';
-    const wsUrl = `${wsProtocol}://${host}/media-stream`;
-    
-    logger.info({ wsUrl }, 'Generating TwiML');
-    
-    const twiml = generateStreamTwiml(wsUrl, 'Connected to voice assistant. You can start speaking.');
+  server.all<{
+    Querystring: Record<string, string | undefined>;
+    Body: Record<string, string | undefined> | undefined;
+  }>('/twiml', { preHandler: verifyTwilioSignature }, async (request, reply) => {
+    const baseUrl = getPublicBaseUrl(request.headers, request.protocol, cfg.server.publicUrl);
+    const wsUrl = `${baseUrl.replace(/^http/, 'ws')}/media-stream`;
     
     reply.type('text/xml');
+
+    if (!sessions.hasCapacity() && !sessions.canQueue()) {
+      logger.warn({ active: sessions.activeCount, queued: sessions.queuedCount }, 'All sessions busy, rejecting call');
+      return generateSayAndHangupTwiml(sessionConfig.rejectMessage);
+    }
+
+    // Twilio sends call details as form fields on POST and as query parameters on GET
+    const callParams = { ...request.query, ...request.body };
+    const record = parseRecordParameter(request.query['record']);
+    const persona = await selectPersona(personas(), {
+      to: callParams['To'],
+      from: callParams['From'],
+      callSid: callParams['CallSid'],
+      query: request.query,
+    }, options.resolvePersona);
+
+    const definition = persona ? findPersona(personas(), persona) : null;
+    const personaLimit = definition?.limits?.maxConcurrent;
+    if (persona && personaLimit !== undefined && (personaCalls.get(persona) ?? 0) >= personaLimit) {
+      logger.warn({ persona, limit: personaLimit }, 'Persona at its call limit, rejecting call');
+      return generateSayAndHangupTwiml(sessionConfig.rejectMessage);
+    }
+
+    logger.info({ wsUrl, persona }, 'Generating TwiML');
+
+    const parameters: Record<string, string> = { direction: 'inbound' };
+    if (persona) parameters['persona'] = persona;
+    if (record !== undefined) parameters['record'] = String(record);
+
+    // The keypad menu replaces the greeting; the choice is collected on the media stream
+    const menu = cfg.dtmf?.menu;
+    if (menu) parameters['menu'] = 'true';
+
+    const twiml = generateStreamTwiml(
+      wsUrl,
+      menu?.prompt ?? definition?.greeting ?? 'Connected to voice assistant. You can start speaking.',
+      parameters,
+    );
+    
     return twiml;
   });
 
+  // Twilio call status callbacks
+  server.post<{ Body: Record<string, string> }>('/call-status', { preHandler: verifyTwilioSignature }, async (request, reply) => {
+    const { CallSid, CallStatus, CallDuration } = request.body ?? {};
+    logger.info({ callSid: CallSid, status: CallStatus, duration: CallDuration }, 'Call status update');
+    outboundCalls?.handleStatusCallback(request.body ?? {});
+    reply.code(204);
+  });
+
+  // Place an outbound call connected to the bot
+  server.post<{ Body: Partial<PlaceCallOptions> }>('/calls', { preHandler: verifyApiToken }, async (request, reply) => {
+    if (!outboundCalls) {
+      reply.code(503);
+      return { error: 'Outbound calling needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and PUBLIC_URL' };
+    }
+
+    const { to, from, persona, metadata, record } = request.body ?? {};
+    const validMetadata = metadata === undefined || (
+      typeof metadata === 'object' && metadata !== null && Object.values(metadata).every((value) => typeof value === 'string')
+    );
+    if (typeof to !== 'string' || !to || !validMetadata || (record !== undefined && typeof record !== 'boolean')) {
+      reply.code(400);
+      return { error: '`to` is required, `metadata` must map names to strings and `record` must be a boolean' };
+    }
+
+    try {
+      const call = await outboundCalls.placeCall({ to, from, persona, metadata, record });
+      reply.code(201);
+      return call;
+    } catch (err) {
+      logger.error({ err, to }, 'Failed to place outbound call');
+      reply.code(502);
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  // Outbound calls still in progress
+  server.get('/calls', { preHandler: verifyApiToken }, async () => {
+    return { calls: outboundCalls?.list() ?? [] };
+  });
+
+  server.get<{ Params: { sid: string } }>('/calls/:sid', { preHandler: verifyApiToken }, async (request, reply) => {
+    const call = outboundCalls?.get(request.params.sid);
+    if (!call) {
+      reply.code(404);
+      return { error: 'Call not found' };
+    }
+    return call;
+  });
+
+  // Hand a live call off to a human agent
+  server.post<{ Params: { sid: string }; Body: { target?: unknown; reason?: unknown } }>('/calls/:sid/transfer', { preHandler: verifyApiToken }, async (request, reply) => {
+    const bot = liveCalls.get(request.params.sid);
+    if (!bot?.active) {
+      reply.code(404);
+      return { error: 'No live bot session for this call' };
+    }
+
+    const { target, reason } = request.body ?? {};
+    if (!isTransferTarget(target) || (reason !== undefined && typeof reason !== 'string')) {
+      reply.code(400);
+      return { error: '`target` must be {type: number|sip|queue, ...} and `reason` a string' };
+    }
+
+    try {
+      await bot.transferCall(target, reason);
+      return { status: 'transferred' };
+    } catch (err) {
+      logger.error({ err, callSid: request.params.sid }, 'Failed to transfer call');
+      reply.code(502);
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  // Summary spoken to the agent before a transferred caller is connected
+  server.all<{ Querystring: { call?: string } }>('/transfer-whisper', { preHandler: verifyTwilioSignature }, async (request, reply) => {
+    const callSid = request.query.call ?? '';
+    const summary = whispers.get(callSid);
+    whispers.delete(callSid);
+    reply.type('text/xml');
+    return generateSayTwiml(summary ?? 'Incoming transfer from the voice assistant.');
+  });
+
+  // Agents' voice webhook for queue transfers: whisper the summary of the caller
+  // waiting longest, then connect to them (Twilio dequeues in the same order)
+  server.all<{ Querystring: { queue?: string } }>('/transfer-agent', { preHandler: verifyTwilioSignature }, async (request, reply) => {
+    const queue = request.query.queue ?? '';
+    reply.type('text/xml');
+    if (!queue) {
+      return generateSayAndHangupTwiml('No queue was given for this agent line.');
+    }
+
+    const callSid = queues.get(queue)?.[0];
+    const summary = callSid ? whispers.get(callSid) : undefined;
+    if (callSid) {
+      removeFromQueue(queues, queue, callSid);
+      whispers.delete(callSid);
+    }
+    return generateDequeueTwiml(queue, cfg.transfer?.whisper !== false ? summary : undefined);
+  });
+
+  // Twilio reports a transferred caller leaving a queue (bridged, hung up, ...)
+  server.all<{ Querystring: { queue?: string; call?: string } }>('/transfer-queue-left', { preHandler: verifyTwilioSignature }, async (request, reply) => {
+    const callSid = request.query.call ?? '';
+    removeFromQueue(queues, request.query.queue ?? '', callSid);
+    whispers.delete(callSid);
+    reply.type('text/xml');
+    return '<?xml version="1.0" encoding="UTF-8"?>\n<Response/>';
+  });
+
+  // Warm connection pool hit/miss counts
+  server.get('/warm-pool', async () => {
+    return warmPool ? { enabled: true, ...warmPool.stats() } : { enabled: false };
+  });
+
+  // Read-only persona catalog for dashboards and web clients
+  server.get('/personas', async (_request, reply) => {
+    reply.header('access-control-allow-origin', '*');
+    const current = personas();
+    return {
+      defaultPersona: current.defaultPersona ?? null,
+      // Display fields only: prompts, triggers (with transfer credentials and phone numbers) and sources stay private
+      personas: Object.entries(current.definitions).map(([id, definition]) => ({
+        id,
+        name: definition.name ?? id,
+        voicePrompt: definition.voicePrompt ?? cfg.personaplex.voicePrompt,
+        active: personaCalls.get(id) ?? 0,
+      })),
+    };
+  });
+
   // Media Stream WebSocket endpoint
-  server.get('/media-stream', { websocket: true }, (socket, _request) => {
-    handleMediaStream(socket, cfg);
+  server.get('/media-stream', { websocket: true }, (socket, request) => {
+    handleMediaStream(socket, {
+      config: cfg,
+      sessions,
+      holdAudio,
+      fillerAudio,
+      backendPool,
+      warmPool,
+      callControl,
+      notifier,
+      personas,
+      personaCalls,
+      liveCalls,
+      whispers,
+      queues,
+      baseUrl: getPublicBaseUrl(request.headers, request.protocol, cfg.server.publicUrl),
+    });
   });
 
   return server;
 }
 
+/**
+ * Create a preHandler that rejects Twilio webhooks with a missing or invalid signature
+ */
+function createSignatureCheck(config: VoiceBotConfig) {
+  const authToken = config.twilio?.authToken;
+
+  if (config.server.validateTwilioSignature === false) {
+    logger.warn('Twilio signature validation is disabled; do not run like this in production');
+  } else if (!authToken) {
+    logger.error('Twilio signature validation needs TWILIO_AUTH_TOKEN; all webhooks will be rejected');
+  }
+
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | void> => {
+    if (config.server.validateTwilioSignature === false) {
+      return;
+    }
+
+    // Twilio signs the URL it called, so rebuild the public one
+    const url = getPublicBaseUrl(request.headers, request.protocol, config.server.publicUrl) + request.url;
+    const valid = authToken !== undefined && validateWebhookSignature({
+      authToken,
+      signature: request.headers['x-twilio-signature'] as string | undefined,
+      url,
+      params: request.method === 'POST' ? (request.body as Record<string, string> | undefined) ?? {} : {},
+    });
+
+    if (!valid) {
+      logger.warn({ url, ip: request.ip }, 'Rejected webhook with invalid Twilio signature');
+      return reply.code(403).send({ error: 'Invalid Twilio signature' });
+    }
+  };
+}
+
+/**
+ * Create a preHandler that rejects call control API requests without the configured bearer token
+ */
+function createApiTokenCheck(config: VoiceBotConfig) {
+  const apiToken = config.server.apiToken;
+  if (!apiToken) {
+    logger.warn('No API_TOKEN set; the call control API (/calls) will reject every request');
+  }
+  // Hashing first gives equal lengths, so the comparison takes the same time for any token
+  const expected = apiToken ? createHash('sha256').update(apiToken).digest() : null;
+
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | void> => {
+    const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+    const valid = expected !== null && scheme?.toLowerCase() === 'bearer' && token !== undefined &&
+      timingSafeEqual(createHash('sha256').update(token).digest(), expected);
+
+    if (!valid) {
+      logger.warn({ url: request.url, ip: request.ip }, 'Rejected API request without a valid token');
+      return reply.code(401).header('www-authenticate', 'Bearer').send({ error: 'Missing or invalid API token' });
+    }
+  };
+}
+
+/**
+ * Parse a per-call recording switch ("true"/"false"; anything else leaves the default)
+ */
+function parseRecordParameter(value: string | undefined): boolean | undefined {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+/**
+ * Forget a transferred caller waiting in a queue
+ */
+function removeFromQueue(queues: Map<string, string[]>, queue: string, callSid: string): void {
+  const waiting = queues.get(queue)?.filter((sid) => sid !== callSid) ?? [];
+  if (waiting.length > 0) {
+    queues.set(queue, waiting);
+  } else {
+    queues.delete(queue);
+  }
+}
+
+/**
+ * Apply the recording retention policy, logging rather than throwing on failure
+ */
+async function pruneRecordings(config: VoiceBotConfig): Promise<void> {
+  const recording = config.recording;
+  if (!recording) {
+    return;
+  }
+  try {
+    await applyRetention(recording.directory, recording);
+  } catch (err) {
+    // A missing directory just means nothing was recorded yet
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn({ err, directory: recording.directory }, 'Could not apply recording retention');
+    }
+  }
+}
+
 /**
  * Handle a Twilio Media Stream WebSocket connection
  */
-async function handleMediaStream(ws: WebSocket, config: VoiceBotConfig): Promise<void> {
+async function handleMediaStream(ws: WebSocket, context: MediaStreamContext): Promise<void> {
+  const { config, sessions, backendPool, warmPool, callControl } = context;
   const callLogger = createLogger('call');
   callLogger.info('New media stream connection');
 
@@ -90,54 +584,264 @@ async function handleMediaStream(ws: WebSocket, config: VoiceBotConfig): Promise
   
   // State to track if we should send audio
   let streamSid: string | null = null;
+  let sessionId: string | null = null;
+  let persona: string | null = null;
+  let recorder: CallRecorder | null = null;
+  let recordingMetadata: Record<string, unknown> = {};
+  // Media timestamps count from the stream start, the recorder from its own (later, after a menu)
+  let streamStartedAt = 0;
+  let recordingOffsetMs = 0;
+  let endReason: SessionEndReason | null = null;
+  let menu: DtmfMenu | null = null;
+  // Set once the stream stops; the start handler checks it after each await
+  let callEnded = false;
+  // While PersonaPlex connects, the start handler releases the call once the bot is torn down
+  let connecting = false;
+  let cancelMenu: (() => void) | null = null;
+
+  const hold = new HoldPlayer({
+    handler: twilioHandler,
+    send: (msg) => {
+      if (ws.readyState === ws.OPEN) ws.send(msg);
+    },
+    audio: context.holdAudio,
+  });
+
+  // Fills the gap while a resilient session reconnects to PersonaPlex
+  const filler = new HoldPlayer({
+    handler: twilioHandler,
+    send: (msg) => {
+      if (ws.readyState === ws.OPEN) ws.send(msg);
+    },
+    audio: context.fillerAudio,
+  });
+
+  // Paces bot audio to Twilio in 20ms frames
+  const outbound = new OutboundScheduler({
+    send: (frame) => {
+      try {
+          const msg = twilioHandler.createAudioMessage(frame);
+          if (ws.readyState === ws.OPEN) {
+               ws.send(msg);
+          }
+      } catch (err) {
+          callLogger.error({ err }, 'Failed to send audio to Twilio');
+      }
+    },
+  });
+
+  outbound.on('underrun', (stats) => {
+      callLogger.debug(stats, 'Outbound audio underrun');
+  });
 
   // 1. Connect VoiceBot audio -> Twilio
-  bot.on('audio', (pcm) => { // pcm is 24kHz
+  bot.on('audio', (pcm) => { // pcm is 8kHz (resampled by VoiceBot)
     if (!streamSid) return;
-    
-    // Resample 24k -> 8k for Twilio
-    const resampled = resample(pcm, PERSONAPLEX_SAMPLE_RATE, TWILIO_SAMPLE_RATE);
-    
-    try {
-        const msg = twilioHandler.createAudioMessage(resampled);
-        if (ws.readyState === ws.OPEN) {
-             ws.send(msg);
-        }
-    } catch (err) {
-        callLogger.error({ err }, 'Failed to send audio to Twilio');
-    }
+    outbound.push(pcm);
+    recorder?.writeBot(pcm);
   });
 
   bot.on('text', (text) => {
-      callLogger.info({ text }, 'Bot said');
+      callLogger.debug({ text }, 'Bot said');
   });
   
+  bot.on('bargeIn', () => {
+      if (!streamSid || ws.readyState !== ws.OPEN) return;
+
+      // Drop bot audio still queued here and buffered at Twilio
+      callLogger.debug('Caller barged in, clearing playback');
+      outbound.flush();
+      recorder?.clearBot();
+      ws.send(twilioHandler.createClearMessage());
+  });
+
+  bot.on('speechStart', (timestamp) => {
+      callLogger.debug({ timestamp }, 'Caller started speaking');
+  });
+
+  bot.on('speechEnd', (timestamp, durationMs) => {
+      callLogger.debug({ timestamp, durationMs }, 'Caller stopped speaking');
+  });
+
   bot.on('ready', () => {
       callLogger.info('Bot ready');
+      // Clear buffered hold audio so the bot starts on a clean line
+      hold.stop();
+      outbound.start();
+  });
+
+  bot.on('reconnecting', (reason) => {
+      callLogger.warn({ reason }, 'Reconnecting to PersonaPlex, keeping the caller on the line');
+      outbound.flush();
+      recorder?.clearBot();
+      if (streamSid && ws.readyState === ws.OPEN) {
+          ws.send(twilioHandler.createClearMessage());
+      }
+      filler.start();
+  });
+
+  bot.on('resumed', (attempts) => {
+      callLogger.info({ attempts }, 'Conversation resumed');
+      filler.stop();
+  });
+
+  bot.on('ended', async (reason) => {
+      endReason = reason;
+      outbound.stop();
+      filler.stop();
+      // Transcript text is caller data, so only its size is logged
+      const transcript = bot.getTranscript();
+      callLogger.info({ reason, durationMs: transcript?.durationMs, entries: transcript?.entries.length }, 'Call ended');
+      if (!sessionId) return;
+
+      if (TIMEOUT_END_REASONS.has(reason)) {
+          // Timed out: say goodbye and hang up the Twilio leg
+          callLogger.info({ reason }, 'Ending timed-out call');
+          await hangUp(config.timeouts?.closingPrompt || undefined);
+      } else if (reason === 'backendDisconnected' && streamSid) {
+          // PersonaPlex is gone for good; don't leave the caller in silence
+          callLogger.warn('Lost PersonaPlex, ending call');
+          await hangUp(config.sessions?.connectFailureMessage);
+      }
   });
   
+  bot.on('digitsCollected', (digits, end) => {
+      callLogger.info({ digits: digits.length, end }, 'Caller entered digits');
+  });
+
+  bot.on('trigger', ({ trigger, text }) => {
+      callLogger.info({ trigger: trigger.id, text, action: trigger.action.type }, 'Trigger fired');
+  });
+
   bot.on('error', (err) => {
       callLogger.error({ err }, 'Bot error');
   });
 
   // 2. Connect Twilio events -> VoiceBot
   
-  twilioHandler.on('start', async (sid, callSid) => {
+  twilioHandler.on('start', async (sid, callSid, params) => {
       streamSid = sid;
-      callLogger.info({ streamSid, callSid }, 'Stream started');
+      streamStartedAt = Date.now();
+      callLogger.info({ streamSid, callSid, params }, 'Stream started');
+
+      // Inbound calls answer the keypad menu before anything else
+      let choice: DtmfMenuAction | null = null;
+      if (params['menu'] && config.dtmf?.menu) {
+          const result = await runMenu(config.dtmf.menu);
+          if (!result) return; // Hung up during the menu
+          choice = result.action;
+      }
+      if (choice?.type === 'transfer') {
+          try {
+              await transferCall(callSid, { target: choice.target, summary: '' });
+              return;
+          } catch (err) {
+              callLogger.error({ err }, 'Menu transfer failed, starting the conversation instead');
+          }
+      }
+
+      let requested = params['persona'];
+      if (choice?.type === 'persona') {
+          const limit = findPersona(context.personas(), choice.persona)?.limits?.maxConcurrent;
+          if (limit !== undefined && (context.personaCalls.get(choice.persona) ?? 0) >= limit) {
+              callLogger.warn({ persona: choice.persona, limit }, 'Chosen persona at its call limit, keeping the default');
+          } else {
+              requested = choice.persona;
+          }
+      }
+      const definition = requested ? findPersona(context.personas(), requested) : null;
+      if (requested && !definition) {
+          callLogger.warn({ persona: requested }, 'Unknown persona, using default prompts');
+      }
+      if (requested && definition) {
+          persona = requested;
+          context.personaCalls.set(persona, (context.personaCalls.get(persona) ?? 0) + 1);
+      }
+
+      // Set before the first await so a hangup during it releases the call
+      sessionId = callSid;
+      context.liveCalls.set(callSid, bot);
+
+      // Per-call choice, then the persona's, then the global setting
+      const record = parseRecordParameter(params['record']) ?? definition?.record ?? config.recording?.enabled ?? false;
+      if (record && config.recording) {
+          recordingMetadata = { callSid, streamSid: sid, persona, direction: params['direction'], parameters: params };
+          await startRecording(callSid);
+          if (callEnded) {
+              // The stop handlers ran before the recorder existed
+              await finishRecording();
+              return;
+          }
+      }
+
+      // Wait for a free PersonaPlex slot, playing hold audio while queued
+      const slot = sessions.acquire(callSid);
+      const position = sessions.getQueuePosition(callSid);
+      if (position) {
+          callLogger.info({ position }, 'All sessions busy, caller on hold');
+          hold.start();
+      }
+
+      try {
+          await slot;
+      } catch (err) {
+          callLogger.warn({ err }, 'Caller could not be given a session');
+          hold.stop();
+          ws.close();
+          return;
+      }
+      if (callEnded) return; // The stop handlers release the slot
+
+      // Keep hold audio playing while PersonaPlex connects; a cold model can take minutes to load
+      hold.start();
       
+      connecting = true;
       try {
-          // Initialize bot session expecting 8kHz input
+          // Initialize bot session with 8kHz audio in both directions
           await bot.startSession({ 
-              inputSampleRate: TWILIO_SAMPLE_RATE 
+              inputSampleRate: TWILIO_SAMPLE_RATE,
+              outputSampleRate: TWILIO_SAMPLE_RATE,
+              backendPool: backendPool ?? undefined,
+              warmPool: warmPool ?? undefined,
+              personaplex: persona ? getPersonaOverride(context.personas(), persona) ?? undefined : undefined,
+              timeouts: {
+                  maxCallDurationMs: definition?.limits?.maxCallDurationMs,
+                  callerSilenceMs: definition?.limits?.callerSilenceMs,
+              },
+              transfer: (transfer) => transferCall(callSid, transfer),
+              triggers: [...config.triggers ?? [], ...definition?.triggers ?? []],
+              notifier: callNotifier(callSid),
+              hangup: (message) => hangUp(message),
+              context: choice?.type === 'context' ? [choice.text] : undefined,
           });
       } catch (err) {
-          callLogger.error({ err }, 'Failed to start bot session');
+          if (!callEnded) {
+              callLogger.error({ err }, 'Failed to start bot session');
+              hold.stop();
+              if (streamSid) await hangUp(config.sessions?.connectFailureMessage);
+          }
+      } finally {
+          connecting = false;
+      }
+
+      if (callEnded) {
+          // Hung up while connecting: drop the connection before the slot goes to the next caller
+          callLogger.info('Caller hung up while PersonaPlex connected, ending the session');
+          await bot.endSession();
+          releaseCall();
       }
   });
 
-  twilioHandler.on('audio', (pcm, _timestamp) => {
+  twilioHandler.on('dtmf', (digit) => handleDigit(digit, 'twilio'));
+
+  // Some carriers only send keypresses as tones in the audio
+  const dtmfDetector = config.dtmf?.inbandDetection ? new DtmfDetector({ sampleRate: TWILIO_SAMPLE_RATE }) : null;
+  dtmfDetector?.on('dtmf', (digit) => handleDigit(digit, 'inband'));
+
+  twilioHandler.on('audio', (pcm, timestamp) => {
       // pcm is 8kHz (decoded from mulaw)
+      recorder?.writeCaller(pcm, timestamp - recordingOffsetMs);
+      dtmfDetector?.process(pcm);
       if (bot.active) {
           bot.sendAudio(pcm);
       }
@@ -146,9 +850,152 @@ async function handleMediaStream(ws: WebSocket, config: VoiceBotConfig): Promise
   twilioHandler.on('stop', async () => {
       callLogger.info('Stream stopped');
       streamSid = null;
+      callEnded = true;
+      cancelMenu?.();
+      hold.stop();
+      filler.stop();
+      outbound.stop();
       await bot.endSession();
+      await finishRecording();
+      if (!connecting) releaseCall();
   });
 
+  // Keypresses go to the menu while it runs, then to the bot
+  function handleDigit(digit: string, source: 'twilio' | 'inband'): void {
+      callLogger.debug({ digit, source }, 'Caller pressed a key');
+      if (menu) {
+          menu.push(digit);
+      } else if (bot.active) {
+          bot.sendDigit(digit);
+      }
+  }
+
+  // Wait for the caller's menu choice; resolves null if the stream stops first
+  function runMenu(definition: DtmfMenuDefinition): Promise<DtmfMenuResult | null> {
+      const dtmf = config.dtmf;
+      const running = new DtmfMenu(definition, {
+          interDigitTimeoutMs: dtmf?.interDigitTimeoutMs,
+          terminators: dtmf?.terminators,
+      });
+      menu = running;
+      return new Promise((resolve) => {
+          const settle = (result: DtmfMenuResult | null) => {
+              menu = null;
+              cancelMenu = null;
+              running.dispose();
+              resolve(result);
+          };
+          cancelMenu = () => settle(null);
+          running.on('done', (result) => {
+              callLogger.info({ outcome: result.outcome, action: result.action?.type ?? null }, 'Menu answered');
+              settle(result);
+          });
+          running.start();
+      });
+  }
+
+  async function startRecording(callSid: string): Promise<void> {
+      const settings = config.recording!;
+      const started = new CallRecorder({ directory: settings.directory, callId: callSid, sampleRate: settings.sampleRate });
+      started.on('error', () => {
+          if (recorder === started) recorder = null;
+      });
+      try {
+          recordingOffsetMs = Date.now() - streamStartedAt;
+          await started.start();
+          recorder = started;
+      } catch (err) {
+          callLogger.error({ err }, 'Could not start recording');
+      }
+  }
+
+  // Save the recording with its metadata sidecar (once; stop and close both end the call)
+  async function finishRecording(): Promise<void> {
+      const finished = recorder;
+      if (!finished) return;
+      recorder = null;
+      await finished.stop({
+          ...recordingMetadata,
+          endReason: endReason ?? 'requested',
+          transcript: bot.getTranscript()?.toJSON() ?? null,
+      });
+      await pruneRecordings(config);
+  }
+
+  // Say a message and hang up the Twilio leg
+  async function hangUp(message: string | undefined): Promise<void> {
+      if (!sessionId) return;
+      try {
+          if (!callControl) throw new Error('Twilio credentials not configured');
+          await callControl.hangup(sessionId, message);
+      } catch (err) {
+          // Closing the stream ends <Connect>, which ends the call
+          callLogger.warn({ err }, 'Could not hang up via REST API, closing media stream');
+          ws.close();
+      }
+  }
+
+  // Replace the call's TwiML with a <Dial> (the agent hears the conversation summary first)
+  // or an <Enqueue> (the summary waits for the agent who dequeues the caller via /transfer-agent)
+  async function transferCall(callSid: string, { target, summary }: CallTransfer): Promise<void> {
+      if (!callControl) throw new Error('Call transfer needs TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN');
+      const settings = config.transfer;
+      const call = encodeURIComponent(callSid);
+
+      let whisperUrl: string | undefined;
+      let queueActionUrl: string | undefined;
+      if (target.type === 'queue') {
+          // Kept until the caller leaves the queue
+          if (summary) context.whispers.set(callSid, summary);
+          context.queues.set(target.name, [...context.queues.get(target.name) ?? [], callSid]);
+          queueActionUrl = `${context.baseUrl}/transfer-queue-left?queue=${encodeURIComponent(target.name)}&call=${call}`;
+      } else if (settings?.whisper !== false && summary) {
+          context.whispers.set(callSid, summary);
+          setTimeout(() => context.whispers.delete(callSid), WHISPER_TTL_MS).unref();
+          whisperUrl = `${context.baseUrl}/transfer-whisper?call=${call}`;
+      }
+
+      try {
+          await callControl.updateTwiml(callSid, generateDialTwiml(target, {
+              message: settings?.message || undefined,
+              whisperUrl,
+              queueActionUrl,
+              timeoutSeconds: settings?.timeoutSeconds,
+          }));
+      } catch (err) {
+          context.whispers.delete(callSid);
+          if (target.type === 'queue') removeFromQueue(context.queues, target.name, callSid);
+          throw err;
+      }
+      callLogger.info({ target: target.type }, 'Call transferred');
+  }
+
+  // Notifications for this call; messages may mention {callSid} and {persona}
+  function callNotifier(callSid: string): Notifier | undefined {
+      const notifier = context.notifier;
+      if (!notifier) return undefined;
+      return {
+          notify: (notification) => notifier.notify({
+              ...notification,
+              message: fillTemplate(notification.message, { callSid, persona: persona ?? undefined }),
+          }),
+      };
+  }
+
+  // Free the session slot and persona count exactly once (stop and close both end the call)
+  function releaseCall(): void {
+      if (sessionId) {
+          sessions.release(sessionId);
+          if (context.liveCalls.get(sessionId) === bot) context.liveCalls.delete(sessionId);
+      }
+      if (persona) {
+          const remaining = (context.personaCalls.get(persona) ?? 1) - 1;
+          if (remaining > 0) context.personaCalls.set(persona, remaining);
+          else context.personaCalls.delete(persona);
+          persona = null;
+      }
+  }
+
   // 3. Handle WebSocket messages
   ws.on('message', (data) => {
     try {
@@ -161,7 +1008,14 @@ async function handleMediaStream(ws: WebSocket, config: VoiceBotConfig): Promise
 
   ws.on('close', async () => {
     callLogger.info('WebSocket closed');
+    callEnded = true;
+    cancelMenu?.();
+    hold.stop();
+    filler.stop();
+    outbound.stop();
     await bot.endSession();
+    await finishRecording();
+    if (!connecting) releaseCall();
   });
 
   ws.on('error', (error) => {
@@ -172,9 +1026,9 @@ async function handleMediaStream(ws: WebSocket, config: VoiceBotConfig): Promise
 /**
  * Start the server
  */
-export async function startServer(config?: VoiceBotConfig): Promise<FastifyInstance> {
+export async function startServer(config?: VoiceBotConfig, options?: ServerOptions): Promise<FastifyInstance> {
   const cfg = config ?? loadConfig();
-  const server = await createServer(cfg);
+  const server = await createServer(cfg, options);
 
   try {
     await server.listen({ port: cfg.server.port, host: cfg.server.host });
@@ -2,4 +2,4 @@
  * Server module
  */
 
-export { startServer, createServer } from './app.js';
+export { startServer, createServer, type ServerOptions } from './app.js';
@@ -0,0 +1,6 @@
+/**
+ * Session management module
+ */
+
+export { SessionManager } from './session-manager.js';
+export type { SessionManagerOptions, SessionManagerEvents, SessionInfo } from './session-manager.js';
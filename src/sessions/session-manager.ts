@@ -0,0 +1,234 @@
+/**
+ * Session Manager
+ *
+ * Tracks live call sessions across the bridge, enforces the PersonaPlex
+ * concurrency limit and queues callers that arrive while all slots are busy.
+ * Queued callers are promoted in arrival order as soon as a slot frees up.
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * Session manager options
+ */
+export interface SessionManagerOptions {
+  /** Maximum concurrent sessions, or a function returning the current limit (e.g., from a backend pool) */
+  maxConcurrent: number | (() => number);
+  /** Maximum number of callers waiting for a slot (0 disables queueing) */
+  maxQueueSize: number;
+}
+
+/**
+ * Snapshot of a tracked session
+ */
+export interface SessionInfo {
+  /** Session identifier (Twilio Call SID) */
+  id: string;
+  /** Whether the session holds a slot or waits in the queue */
+  state: 'active' | 'queued';
+  /** 1-based queue position (0 when active) */
+  position: number;
+  /** When the session was registered */
+  createdAt: Date;
+  /** When the session was given a slot */
+  startedAt?: Date;
+}
+
+/**
+ * SessionManager events
+ */
+export interface SessionManagerEvents {
+  /** Session was given a slot */
+  started: [id: string];
+  /** Session is waiting for a slot */
+  queued: [id: string, position: number];
+  /** Queued session was promoted to a slot */
+  promoted: [id: string];
+  /** Session left (ended, hung up or gave up waiting) */
+  released: [id: string];
+}
+
+interface ActiveSession {
+  id: string;
+  createdAt: Date;
+  startedAt: Date;
+}
+
+interface QueuedSession {
+  id: string;
+  createdAt: Date;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Tracks active and queued sessions
+ *
+ * @example
+ * ```typescript
+ * const sessions = new SessionManager({ maxConcurrent: 1, maxQueueSize: 5 });
+ *
+ * // Resolves immediately if a slot is free, otherwise once promoted
+ * await sessions.acquire(callSid);
+ *
+ * // When the call ends (frees the slot for the next caller)
+ * sessions.release(callSid);
+ * ```
+ */
+export class SessionManager extends EventEmitter<SessionManagerEvents> {
+  private readonly maxConcurrent: () => number;
+  private readonly maxQueueSize: number;
+  private readonly active = new Map<string, ActiveSession>();
+  private readonly queue: QueuedSession[] = [];
+
+  constructor(options: SessionManagerOptions) {
+    super();
+    const { maxConcurrent } = options;
+    this.maxConcurrent = typeof maxConcurrent === 'function' ? maxConcurrent : () => maxConcurrent;
+    this.maxQueueSize = Math.max(0, options.maxQueueSize);
+  }
+
+  /**
+   * Acquire a session slot
+   *
+   * Resolves immediately when a slot is free. Otherwise the session is queued
+   * and the promise resolves when it is promoted.
+   *
+   * @throws Error if the queue is full, or (async) if the session is released while queued
+   */
+  acquire(id: string): Promise<void> {
+    if (this.active.has(id) || this.queue.some((entry) => entry.id === id)) {
+      return Promise.reject(new Error(`Session ${id} already registered`));
+    }
+
+    if (this.hasCapacity()) {
+      this.start(id, new Date());
+      return Promise.resolve();
+    }
+
+    if (!this.canQueue()) {
+      return Promise.reject(new Error('Session queue is full'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id, createdAt: new Date(), resolve, reject });
+      this.emit('queued', id, this.queue.length);
+    });
+  }
+
+  /**
+   * Release a session (active or queued) and promote the next caller
+   */
+  release(id: string): void {
+    if (this.active.delete(id)) {
+      this.emit('released', id);
+      this.promoteNext();
+      return;
+    }
+
+    const index = this.queue.findIndex((entry) => entry.id === id);
+    if (index !== -1) {
+      const [entry] = this.queue.splice(index, 1);
+      entry?.reject(new Error(`Session ${id} left the queue`));
+      this.emit('released', id);
+    }
+  }
+
+  /**
+   * Re-evaluate capacity and promote queued sessions (call when the limit may have grown)
+   */
+  refresh(): void {
+    this.promoteNext();
+  }
+
+  /**
+   * Check whether a new session would get a slot immediately
+   */
+  hasCapacity(): boolean {
+    return this.active.size < this.maxConcurrent();
+  }
+
+  /**
+   * Check whether a new session could wait in the queue
+   */
+  canQueue(): boolean {
+    return this.queue.length < this.maxQueueSize;
+  }
+
+  /**
+   * Get the 1-based queue position of a session
+   *
+   * @returns 0 if the session is active, null if unknown
+   */
+  getQueuePosition(id: string): number | null {
+    if (this.active.has(id)) {
+      return 0;
+    }
+
+    const index = this.queue.findIndex((entry) => entry.id === id);
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Get a snapshot of a single session
+   */
+  get(id: string): SessionInfo | null {
+    return this.list().find((session) => session.id === id) ?? null;
+  }
+
+  /**
+   * Get a snapshot of all tracked sessions
+   */
+  list(): SessionInfo[] {
+    const active: SessionInfo[] = [...this.active.values()].map((session) => ({
+      id: session.id,
+      state: 'active',
+      position: 0,
+      createdAt: session.createdAt,
+      startedAt: session.startedAt,
+    }));
+
+    const queued: SessionInfo[] = this.queue.map((entry, index) => ({
+      id: entry.id,
+      state: 'queued',
+      position: index + 1,
+      createdAt: entry.createdAt,
+    }));
+
+    return [...active, ...queued];
+  }
+
+  /**
+   * Number of sessions holding a slot
+   */
+  get activeCount(): number {
+    return this.active.size;
+  }
+
+  /**
+   * Number of sessions waiting for a slot
+   */
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Mark a session as active
+   */
+  private start(id: string, createdAt: Date): void {
+    this.active.set(id, { id, createdAt, startedAt: new Date() });
+    this.emit('started', id);
+  }
+
+  /**
+   * Hand free slots to queued sessions in arrival order
+   */
+  private promoteNext(): void {
+    while (this.hasCapacity() && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      this.start(next.id, next.createdAt);
+      this.emit('promoted', next.id);
+      next.resolve();
+    }
+  }
+}
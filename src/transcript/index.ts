@@ -0,0 +1,6 @@
+/**
+ * Conversation transcript module
+ */
+
+export { Transcript } from './transcript.js';
+export type { Speaker, TranscriptEntry, TranscriptJson, TranscriptOptions } from './transcript.js';
@@ -0,0 +1,279 @@
+/**
+ * Conversation Transcript
+ *
+ * Assembles the bot's streaming text tokens into utterances and interleaves
+ * the caller's speech segments (from VAD) on one timeline, in ms since the
+ * session started. Bot utterances are timed by when their audio plays rather
+ * than when the text arrived, so they line up with a call recording.
+ *
+ * PersonaPlex does not transcribe the caller, so caller entries carry timing
+ * only and an empty text.
+ */
+
+/**
+ * Who spoke
+ */
+export type Speaker = 'bot' | 'caller';
+
+/**
+ * One speaker turn
+ */
+export interface TranscriptEntry {
+  speaker: Speaker;
+  /** Utterance text (empty for caller speech) */
+  text: string;
+  /** Start in ms since the session started */
+  startMs: number;
+  /** End in ms since the session started */
+  endMs: number;
+  /** The caller barged in, or the call ended or dropped, before the utterance finished */
+  interrupted?: boolean;
+}
+
+/**
+ * JSON export of a transcript
+ */
+export interface TranscriptJson {
+  /** When the session started (ISO 8601) */
+  startedAt: string;
+  /** Session length in ms (up to now while the session runs) */
+  durationMs: number;
+  entries: TranscriptEntry[];
+}
+
+/**
+ * Transcript options
+ */
+export interface TranscriptOptions {
+  /** A pause in bot speech longer than this starts a new utterance (default: 1000ms) */
+  utteranceGapMs?: number;
+  /** When the session started (default: now) */
+  startedAt?: Date;
+}
+
+const SPEAKER_LABELS: Record<Speaker, string> = { bot: 'Bot', caller: 'Caller' };
+
+/** Stand-in text for caller speech in text and WebVTT exports */
+const CALLER_SPEECH_PLACEHOLDER = '[speech]';
+
+/**
+ * Transcript of one conversation
+ *
+ * @example
+ * ```typescript
+ * const transcript = new Transcript();
+ *
+ * transcript.addBotText(' Hello', 0);
+ * transcript.addBotAudio(0, 400);
+ * transcript.startCallerSpeech(900);
+ * transcript.endCallerSpeech(1700);
+ * transcript.close(2000);
+ *
+ * console.log(transcript.toWebVTT());
+ * ```
+ */
+export class Transcript {
+  /** When the session started */
+  readonly startedAt: Date;
+  private readonly utteranceGapMs: number;
+  private readonly turns: TranscriptEntry[] = [];
+  private bot: TranscriptEntry | null = null;
+  private caller: TranscriptEntry | null = null;
+  private endedAtMs: number | null = null;
+
+  constructor(options: TranscriptOptions = {}) {
+    this.startedAt = options.startedAt ?? new Date();
+    this.utteranceGapMs = options.utteranceGapMs ?? 1000;
+  }
+
+  /**
+   * Add a streamed text token from the bot
+   *
+   * @param text - Token as received (tokens carry their own leading spaces)
+   * @param atMs - When the audio for this token starts playing
+   */
+  addBotText(text: string, atMs: number): void {
+    if (this.bot && atMs - this.bot.endMs > this.utteranceGapMs) {
+      this.bot = null;
+    }
+    if (!this.bot) {
+      this.bot = { speaker: 'bot', text: '', startMs: atMs, endMs: atMs };
+      this.turns.push(this.bot);
+    }
+    this.bot.text += text;
+    this.bot.endMs = Math.max(this.bot.endMs, atMs);
+  }
+
+  /**
+   * Extend the current bot utterance by audio played from startMs to endMs
+   */
+  addBotAudio(startMs: number, endMs: number): void {
+    if (this.bot && startMs - this.bot.endMs <= this.utteranceGapMs) {
+      this.bot.endMs = Math.max(this.bot.endMs, endMs);
+    }
+  }
+
+  /**
+   * Cut the current bot utterance short (barge-in or lost connection)
+   */
+  interruptBot(atMs: number): void {
+    if (!this.bot) {
+      return;
+    }
+    if (this.bot.endMs > atMs) {
+      this.bot.endMs = Math.max(this.bot.startMs, atMs);
+      this.bot.interrupted = true;
+    }
+    this.bot = null;
+  }
+
+  /**
+   * The caller started speaking
+   */
+  startCallerSpeech(atMs: number): void {
+    // Speech after the bot went quiet is a new turn; speech over the bot is a barge-in (see interruptBot)
+    if (this.bot && atMs >= this.bot.endMs) {
+      this.bot = null;
+    }
+    if (!this.caller) {
+      this.caller = { speaker: 'caller', text: '', startMs: atMs, endMs: atMs };
+      this.turns.push(this.caller);
+    }
+  }
+
+  /**
+   * The caller stopped speaking
+   */
+  endCallerSpeech(atMs: number): void {
+    if (this.caller) {
+      this.caller.endMs = Math.max(this.caller.startMs, atMs);
+      this.caller = null;
+    }
+  }
+
+  /**
+   * End the transcript; open turns end at atMs
+   */
+  close(atMs: number): void {
+    if (this.endedAtMs !== null) {
+      return;
+    }
+    this.interruptBot(atMs);
+    this.endCallerSpeech(atMs);
+    this.endedAtMs = atMs;
+  }
+
+  /**
+   * Whether close() was called
+   */
+  get closed(): boolean {
+    return this.endedAtMs !== null;
+  }
+
+  /**
+   * Session length in ms (up to now while the session runs)
+   */
+  get durationMs(): number {
+    return this.endedAtMs ?? Date.now() - this.startedAt.getTime();
+  }
+
+  /**
+   * Speaker turns in order of start time, with whitespace in the text normalized
+   */
+  get entries(): TranscriptEntry[] {
+    return this.turns
+      .map((turn) => ({ ...turn, text: turn.text.replace(/\s+/g, ' ').trim() }))
+      .filter((turn) => turn.speaker === 'caller' || turn.text.length > 0)
+      .sort((a, b) => a.startMs - b.startMs);
+  }
+
+  /**
+   * Everything one speaker said, joined into one string
+   */
+  textOf(speaker: Speaker): string {
+    return this.entries
+      .filter((entry) => entry.speaker === speaker)
+      .map((entry) => entry.text)
+      .join(' ');
+  }
+
+  /**
+   * Short spoken-style summary for a hand-off: call length, caller turns and the bot's last words
+   *
+   * @param maxChars - Longest quote of the bot's last words (default: 300)
+   */
+  summary(maxChars: number = 300): string {
+    const minutes = Math.max(1, Math.round(this.durationMs / 60000));
+    const callerTurns = this.entries.filter((entry) => entry.speaker === 'caller').length;
+    const parts = [
+      `The caller spoke with the assistant for about ${minutes} minute${minutes === 1 ? '' : 's'}`
+        + ` and took ${callerTurns} turn${callerTurns === 1 ? '' : 's'}.`,
+    ];
+
+    const said = this.textOf('bot');
+    // Start the quote at a word boundary
+    const lastWords = said.length > maxChars ? said.slice(-maxChars).replace(/^\S*\s+/, '') : said;
+    if (lastWords) {
+      parts.push(`The assistant last said: "${lastWords}"`);
+    }
+    return parts.join(' ');
+  }
+
+  /**
+   * Export as a JSON-serializable object
+   */
+  toJSON(): TranscriptJson {
+    return {
+      startedAt: this.startedAt.toISOString(),
+      durationMs: this.durationMs,
+      entries: this.entries,
+    };
+  }
+
+  /**
+   * Export as plain text, one `[HH:MM:SS.mmm] Speaker: text` line per turn
+   */
+  toText(): string {
+    return this.entries
+      .map((entry) => `[${formatTimestamp(entry.startMs)}] ${SPEAKER_LABELS[entry.speaker]}: ${displayText(entry)}`)
+      .join('\n');
+  }
+
+  /**
+   * Export as WebVTT captions with one voice-tagged cue per turn
+   */
+  toWebVTT(): string {
+    const cues = this.entries.map((entry, index) => [
+      String(index + 1),
+      `${formatTimestamp(entry.startMs)} --> ${formatTimestamp(Math.max(entry.endMs, entry.startMs + 1))}`,
+      `<v ${SPEAKER_LABELS[entry.speaker]}>${escapeCueText(displayText(entry))}`,
+    ].join('\n'));
+
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  }
+}
+
+function displayText(entry: TranscriptEntry): string {
+  const text = entry.speaker === 'caller' && !entry.text ? CALLER_SPEECH_PLACEHOLDER : entry.text;
+  return entry.interrupted ? `${text} —` : text;
+}
+
+/**
+ * Format ms as HH:MM:SS.mmm
+ */
+function formatTimestamp(ms: number): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const millis = total % 1000;
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(millis, 3)}`;
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
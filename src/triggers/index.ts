@@ -0,0 +1,14 @@
+/**
+ * Text triggers and notifications module
+ */
+
+export { TriggerEngine, validateTriggerDefinitions } from './trigger-engine.js';
+export type {
+  TriggerAction,
+  TriggerDefinition,
+  TriggerEngineEvents,
+  TriggerEngineOptions,
+  TriggerMatch,
+} from './trigger-engine.js';
+export { fillTemplate } from './notifier.js';
+export type { Notification, Notifier } from './notifier.js';
@@ -0,0 +1,37 @@
+/**
+ * Notifiers
+ *
+ * Deliver trigger `notify` actions to people outside the call (e.g., an SMS
+ * to a supervisor). Implement `Notifier` to send them anywhere else.
+ */
+
+/**
+ * A message raised by a trigger
+ */
+export interface Notification {
+  /** Trigger that raised it */
+  triggerId: string;
+  /** Message text, with `{match}` already replaced */
+  message: string;
+  /** Recipient (default: the notifier's own) */
+  to?: string;
+  /** The bot text that matched */
+  match: string;
+}
+
+/**
+ * Delivers notifications
+ */
+export interface Notifier {
+  /**
+   * @throws Error if the notification could not be delivered
+   */
+  notify(notification: Notification): Promise<void>;
+}
+
+/**
+ * Replace `{name}` placeholders with values; unknown placeholders are left as they are
+ */
+export function fillTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
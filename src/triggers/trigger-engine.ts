@@ -0,0 +1,295 @@
+/**
+ * Trigger Engine
+ *
+ * Watches the bot's streamed text for configured phrases or regular
+ * expressions and reports each match with the action to run (transfer,
+ * hang up, notify or a custom event).
+ *
+ * Tokens are appended to a rolling window of recent text, so a phrase split
+ * across tokens ("let me", " trans", "fer you") still matches. A phrase must
+ * end on a word boundary: a match at the very end of the text waits for the
+ * next token (or `settleMs` of quiet), so "transfer you" does not fire on
+ * "transfer your account".
+ */
+
+import { EventEmitter } from 'events';
+import { isTransferTarget, type TransferTarget } from '../twilio/twiml.js';
+
+/**
+ * What a trigger does when it matches
+ */
+export type TriggerAction =
+  /** Transfer the call (see VoiceBot.transferCall) */
+  | { type: 'transfer'; target: TransferTarget; reason?: string }
+  /** End the session and hang up, optionally saying a message first */
+  | { type: 'hangup'; message?: string }
+  /** Send a message through the session's notifier (e.g., SMS); `{match}` is replaced with the matched text */
+  | { type: 'notify'; message: string; to?: string }
+  /** Emit a `triggerEvent` with this name */
+  | { type: 'event'; name: string; data?: Record<string, unknown> };
+
+/**
+ * A phrase or pattern to watch for and the action to run
+ */
+export interface TriggerDefinition {
+  /** Identifies the trigger in events and logs */
+  id: string;
+  /** Words matched case-insensitively, ignoring punctuation and spacing between them */
+  phrase?: string;
+  /** Regular expression source matched against the text (use instead of phrase) */
+  pattern?: string;
+  /** Flags for pattern (default: i) */
+  flags?: string;
+  action: TriggerAction;
+  /** Fire only on the first match (default: true) */
+  once?: boolean;
+  /** Wait this long before running the action, e.g. to let the bot finish its sentence (default: 0) */
+  delayMs?: number;
+}
+
+/**
+ * A trigger that matched
+ */
+export interface TriggerMatch {
+  trigger: TriggerDefinition;
+  /** The text that matched */
+  text: string;
+}
+
+/**
+ * Trigger engine options
+ */
+export interface TriggerEngineOptions {
+  /** Characters of recent text kept for matching (default: 1000) */
+  windowChars?: number;
+  /** Quiet time after which a match at the end of the text counts as complete (default: 400ms) */
+  settleMs?: number;
+}
+
+/**
+ * TriggerEngine events
+ */
+export interface TriggerEngineEvents {
+  match: [match: TriggerMatch];
+}
+
+interface CompiledTrigger {
+  definition: TriggerDefinition;
+  regex: RegExp;
+  /** Absolute text offset where the next match may start */
+  scanFrom: number;
+  fired: boolean;
+}
+
+const ACTION_TYPES: ReadonlySet<string> = new Set(['transfer', 'hangup', 'notify', 'event']);
+
+/**
+ * Matches triggers against a stream of text tokens
+ *
+ * @example
+ * ```typescript
+ * const engine = new TriggerEngine([
+ *   { id: 'escalate', phrase: 'let me transfer you', action: { type: 'transfer', target: { type: 'queue', name: 'agents' } } },
+ * ]);
+ *
+ * engine.on('match', ({ trigger, text }) => console.log(trigger.id, 'matched', text));
+ * bot.on('text', (token) => engine.push(token));
+ * ```
+ */
+export class TriggerEngine extends EventEmitter<TriggerEngineEvents> {
+  private readonly triggers: CompiledTrigger[];
+  private readonly windowChars: number;
+  private readonly settleMs: number;
+  private text: string = '';
+  /** Characters dropped from the front of the window */
+  private dropped: number = 0;
+  private settleTimer: NodeJS.Timeout | null = null;
+
+  constructor(triggers: TriggerDefinition[], options: TriggerEngineOptions = {}) {
+    super();
+    this.windowChars = options.windowChars ?? 1000;
+    this.settleMs = options.settleMs ?? 400;
+    this.triggers = triggers.map((definition) => ({
+      definition,
+      regex: compileTrigger(definition),
+      scanFrom: 0,
+      fired: false,
+    }));
+  }
+
+  /**
+   * Add a text token from the bot
+   */
+  push(token: string): void {
+    if (this.triggers.length === 0) {
+      return;
+    }
+
+    this.text = (this.text + token).replace(/\s+/g, ' ');
+    if (this.text.length > this.windowChars) {
+      const excess = this.text.length - this.windowChars;
+      this.text = this.text.slice(excess);
+      this.dropped += excess;
+    }
+
+    this.scan(false);
+
+    this.clearSettleTimer();
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      this.flush();
+    }, this.settleMs);
+  }
+
+  /**
+   * Treat the text so far as complete (e.g., the bot stopped talking)
+   */
+  flush(): void {
+    this.clearSettleTimer();
+    this.scan(true);
+  }
+
+  /**
+   * Forget the text so far (e.g., after the conversation restarts); fired `once` triggers stay fired
+   */
+  reset(): void {
+    this.clearSettleTimer();
+    this.dropped += this.text.length;
+    this.text = '';
+    for (const trigger of this.triggers) {
+      trigger.scanFrom = this.dropped;
+    }
+  }
+
+  /**
+   * Stop the settle timer
+   */
+  dispose(): void {
+    this.clearSettleTimer();
+    this.removeAllListeners();
+  }
+
+  private scan(atEnd: boolean): void {
+    // A virtual space lets phrases end at the end of the text once it is complete
+    const text = atEnd ? `${this.text} ` : this.text;
+
+    for (const trigger of this.triggers) {
+      if (trigger.fired) {
+        continue;
+      }
+
+      trigger.regex.lastIndex = Math.max(0, trigger.scanFrom - this.dropped);
+      let match: RegExpExecArray | null;
+      while ((match = trigger.regex.exec(text)) !== null) {
+        const end = match.index + match[0].length;
+        if (match[0].length === 0) {
+          trigger.regex.lastIndex++;
+          continue;
+        }
+
+        trigger.scanFrom = this.dropped + end;
+        if (trigger.definition.once !== false) {
+          trigger.fired = true;
+        }
+        this.emit('match', { trigger: trigger.definition, text: match[0].trim() });
+        if (trigger.fired) {
+          break;
+        }
+      }
+    }
+  }
+
+  private clearSettleTimer(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+  }
+}
+
+/**
+ * Validate trigger definitions (from config or a persona file)
+ *
+ * @param raw - Parsed JSON/YAML value
+ * @param label - Where the value came from, used in error messages
+ * @throws Error describing the first invalid trigger
+ */
+export function validateTriggerDefinitions(raw: unknown, label: string): TriggerDefinition[] {
+  if (!Array.isArray(raw)) {
+    throw new Error(`Invalid ${label}: expected a list of triggers`);
+  }
+
+  return raw.map((item, index) => {
+    const where = `${label}[${index}]`;
+    if (typeof item !== 'object' || item === null) {
+      throw new Error(`Invalid ${where}: expected an object`);
+    }
+    const value = item as Record<string, unknown>;
+
+    if (typeof value['id'] !== 'string' || value['id'] === '') {
+      throw new Error(`Invalid ${where}: id must be a non-empty string`);
+    }
+    if ((value['phrase'] === undefined) === (value['pattern'] === undefined)) {
+      throw new Error(`Invalid ${where}: set exactly one of phrase or pattern`);
+    }
+    for (const key of ['phrase', 'pattern', 'flags'] as const) {
+      if (value[key] !== undefined && (typeof value[key] !== 'string' || value[key] === '')) {
+        throw new Error(`Invalid ${where}: ${key} must be a non-empty string`);
+      }
+    }
+    if (value['once'] !== undefined && typeof value['once'] !== 'boolean') {
+      throw new Error(`Invalid ${where}: once must be a boolean`);
+    }
+    if (value['delayMs'] !== undefined && (typeof value['delayMs'] !== 'number' || !(value['delayMs'] >= 0))) {
+      throw new Error(`Invalid ${where}: delayMs must be a number >= 0`);
+    }
+    validateAction(value['action'], where);
+
+    const definition = value as unknown as TriggerDefinition;
+    try {
+      compileTrigger(definition);
+    } catch (error) {
+      throw new Error(`Invalid ${where}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return definition;
+  });
+}
+
+function validateAction(raw: unknown, where: string): void {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error(`Invalid ${where}: action must be an object`);
+  }
+  const action = raw as Record<string, unknown>;
+  const type = action['type'];
+  if (typeof type !== 'string' || !ACTION_TYPES.has(type)) {
+    throw new Error(`Invalid ${where}: action.type must be one of ${[...ACTION_TYPES].join(', ')}`);
+  }
+
+  const required = { transfer: null, hangup: null, notify: 'message', event: 'name' }[type as TriggerAction['type']];
+  if (required && (typeof action[required] !== 'string' || action[required] === '')) {
+    throw new Error(`Invalid ${where}: action.${required} must be a non-empty string`);
+  }
+  if (type === 'transfer' && !isTransferTarget(action['target'])) {
+    throw new Error(`Invalid ${where}: action.target must be {type: number|sip|queue, ...} with its number, uri or name`);
+  }
+}
+
+/**
+ * Build the regex for a trigger
+ *
+ * @throws Error if the pattern is not a valid regular expression or the phrase has no words
+ */
+function compileTrigger(definition: TriggerDefinition): RegExp {
+  if (definition.pattern !== undefined) {
+    const flags = definition.flags ?? 'i';
+    return new RegExp(definition.pattern, flags.includes('g') ? flags : `${flags}g`);
+  }
+
+  const words = (definition.phrase ?? '').toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+  if (words.length === 0) {
+    throw new Error('phrase has no words');
+  }
+  const escaped = words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // The lookahead needs a character after the last word, so a match at the end of the text waits for more
+  return new RegExp(`(?<![\\p{L}\\p{N}'])${escaped.join("[^\\p{L}\\p{N}']+")}(?=[^\\p{L}\\p{N}'])`, 'giu');
+}
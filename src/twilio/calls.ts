@@ -0,0 +1,102 @@
+/**
+ * Twilio call control
+ *
+ * Thin wrapper around the Twilio REST API for acting on live calls
+ * (the Media Stream itself can only carry audio, not call control).
+ */
+
+import twilio from 'twilio';
+import type { TwilioConfig } from '../config.js';
+import { generateSayAndHangupTwiml } from './twiml.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('twilio-calls');
+
+/**
+ * Parameters for creating an outbound call
+ */
+export interface CreateCallOptions {
+  /** Number to call (E.164) */
+  to: string;
+  /** Caller ID (E.164, must be a Twilio number on the account) */
+  from: string;
+  /** TwiML to run when the call is answered */
+  twiml: string;
+  /** URL receiving call status callbacks */
+  statusCallback?: string;
+}
+
+/**
+ * A call created through the REST API
+ */
+export interface CreatedCall {
+  /** Twilio Call SID */
+  sid: string;
+  /** Initial call status (usually queued) */
+  status: string;
+}
+
+/**
+ * Controls live Twilio calls via the REST API
+ *
+ * @example
+ * ```typescript
+ * const calls = new TwilioCallControl(config.twilio);
+ * await calls.hangup(callSid, 'Thanks for calling. Goodbye.');
+ * ```
+ */
+export class TwilioCallControl {
+  private readonly client: twilio.Twilio;
+
+  /**
+   * @param config - Twilio credentials
+   * @param client - Preconfigured REST client (e.g., with a custom httpClient); built from config when omitted
+   */
+  constructor(config: TwilioConfig, client?: twilio.Twilio) {
+    this.client = client ?? twilio(config.accountSid, config.authToken);
+  }
+
+  /**
+   * Create an outbound call
+   */
+  async createCall(options: CreateCallOptions): Promise<CreatedCall> {
+    const call = await this.client.calls.create({
+      to: options.to,
+      from: options.from,
+      twiml: options.twiml,
+      ...(options.statusCallback && {
+        statusCallback: options.statusCallback,
+        statusCallbackMethod: 'POST',
+        statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+      }),
+    });
+
+    logger.info({ callSid: call.sid, to: options.to }, 'Outbound call created');
+    return { sid: call.sid, status: call.status };
+  }
+
+  /**
+   * Replace a live call's TwiML (e.g., to transfer it)
+   *
+   * Ends the call's Media Stream.
+   */
+  async updateTwiml(callSid: string, twiml: string): Promise<void> {
+    logger.info({ callSid }, 'Updating call TwiML');
+    await this.client.calls(callSid).update({ twiml });
+  }
+
+  /**
+   * Hang up a live call, optionally speaking a message first
+   *
+   * Replacing the call's TwiML also ends its Media Stream.
+   */
+  async hangup(callSid: string, message?: string): Promise<void> {
+    logger.info({ callSid, withMessage: Boolean(message) }, 'Hanging up call');
+
+    if (message) {
+      await this.client.calls(callSid).update({ twiml: generateSayAndHangupTwiml(message) });
+    } else {
+      await this.client.calls(callSid).update({ status: 'completed' });
+    }
+  }
+}
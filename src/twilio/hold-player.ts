@@ -0,0 +1,123 @@
+/**
+ * Hold audio player
+ *
+ * Loops a PCM clip to the caller over a Twilio Media Stream, paced in
+ * real time (20ms / 160-sample frames at 8kHz), while the caller waits.
+ */
+
+import type { TwilioMediaHandler } from './media-streams.js';
+
+const SAMPLE_RATE = 8000;
+const FRAME_SAMPLES = 160; // 20ms at 8kHz
+const FRAME_MS = 20;
+
+/**
+ * Hold player options
+ */
+export interface HoldPlayerOptions {
+  /** Media handler used to build outgoing messages (stream must be started) */
+  handler: TwilioMediaHandler;
+  /** Sends a message on the Twilio WebSocket */
+  send: (message: string) => void;
+  /** Audio to loop (PCM Float32 at 8kHz, default: soft chime every few seconds) */
+  audio?: Float32Array;
+}
+
+/**
+ * Loops hold audio to a caller
+ *
+ * @example
+ * ```typescript
+ * const hold = new HoldPlayer({ handler, send: (msg) => ws.send(msg) });
+ * hold.start();
+ *
+ * // When the caller is promoted
+ * hold.stop();
+ * ```
+ */
+export class HoldPlayer {
+  private readonly handler: TwilioMediaHandler;
+  private readonly send: (message: string) => void;
+  private readonly audio: Float32Array;
+  private timer: NodeJS.Timeout | null = null;
+  private position: number = 0;
+
+  constructor(options: HoldPlayerOptions) {
+    this.handler = options.handler;
+    this.send = options.send;
+    this.audio = options.audio ?? generateHoldChime();
+  }
+
+  /**
+   * Start looping hold audio
+   */
+  start(): void {
+    if (this.timer || this.audio.length === 0) {
+      return;
+    }
+
+    this.position = 0;
+    this.timer = setInterval(() => this.sendFrame(), FRAME_MS);
+  }
+
+  /**
+   * Stop playback and clear anything Twilio still has buffered
+   */
+  stop(): void {
+    if (!this.timer) {
+      return;
+    }
+
+    clearInterval(this.timer);
+    this.timer = null;
+
+    if (this.handler.isActive) {
+      this.send(this.handler.createClearMessage());
+    }
+  }
+
+  /**
+   * Check whether hold audio is playing
+   */
+  get playing(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Send the next 20ms frame of the loop
+   */
+  private sendFrame(): void {
+    if (!this.handler.isActive) {
+      return;
+    }
+
+    const frame = new Float32Array(FRAME_SAMPLES);
+    for (let i = 0; i < FRAME_SAMPLES; i++) {
+      frame[i] = this.audio[this.position]!;
+      this.position = (this.position + 1) % this.audio.length;
+    }
+
+    this.send(this.handler.createAudioMessage(frame));
+  }
+}
+
+/**
+ * Generate the default hold loop: a soft two-note chime followed by silence
+ */
+function generateHoldChime(): Float32Array {
+  const noteSamples = Math.round(SAMPLE_RATE * 0.4);
+  const silenceSamples = SAMPLE_RATE * 3;
+  const notes = [523.25, 659.25]; // C5, E5
+  const audio = new Float32Array(noteSamples * notes.length + silenceSamples);
+
+  notes.forEach((frequency, noteIndex) => {
+    const offset = noteIndex * noteSamples;
+    for (let i = 0; i < noteSamples; i++) {
+      // Exponential decay keeps the chime soft and click-free
+      const envelope = Math.exp(-5 * i / noteSamples) * Math.min(1, i / 80);
+      audio[offset + i] = 0.2 * envelope * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+    }
+  });
+
+  return audio;
+}
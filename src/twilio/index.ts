@@ -3,4 +3,23 @@
  */
 
 export { TwilioMediaHandler, type TwilioMediaMessage, type TwilioStreamEvent } from './media-streams.js';
-export { generateStreamTwiml, generateSayTwiml } from './twiml.js';
+export {
+  generateStreamTwiml,
+  generateSayTwiml,
+  generateSayAndHangupTwiml,
+  generateDialTwiml,
+  generateDequeueTwiml,
+  isTransferTarget,
+  type TransferTarget,
+  type DialTwimlOptions,
+} from './twiml.js';
+export { HoldPlayer, type HoldPlayerOptions } from './hold-player.js';
+export { OutboundScheduler, type OutboundSchedulerOptions, type OutboundSchedulerStats } from './outbound-scheduler.js';
+export { TwilioCallControl, type CreateCallOptions, type CreatedCall } from './calls.js';
+export { TwilioSmsNotifier, type TwilioSmsNotifierOptions } from './sms.js';
+export {
+  OutboundCallManager,
+  type OutboundCall,
+  type OutboundCallManagerOptions,
+  type PlaceCallOptions,
+} from './outbound-calls.js';
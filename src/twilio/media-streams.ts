@@ -36,6 +36,8 @@ export interface TwilioMediaMessage {
     accountSid: string;
     callSid: string;
     tracks: string[];
+    /** Values from the TwiML `<Stream>`'s `<Parameter>` elements */
+    customParameters?: Record<string, string>;
     mediaFormat: {
       encoding: string;
       sampleRate: number;
@@ -68,7 +70,7 @@ export interface TwilioMediaHandlerEvents {
   /** Stream connected */
   connected: [];
   /** Stream started with metadata */
-  start: [streamSid: string, callSid: string];
+  start: [streamSid: string, callSid: string, customParameters: Record<string, string>];
   /** Audio received (PCM Float32) */
   audio: [pcm: Float32Array, timestamp: number];
   /** Stream stopped */
@@ -90,8 +92,8 @@ export interface TwilioMediaHandlerEvents {
  *   // Process incoming audio
  * });
  * 
- * handler.on('start', (streamSid, callSid) => {
- *   console.log(`Call ${callSid} started`);
+ * handler.on('start', (streamSid, callSid, params) => {
+ *   console.log(`Call ${callSid} started with persona ${params.persona}`);
  * });
  * 
  * // In your WebSocket handler:
@@ -107,6 +109,7 @@ export interface TwilioMediaHandlerEvents {
 export class TwilioMediaHandler extends EventEmitter<TwilioMediaHandlerEvents> {
   private streamSid: string | null = null;
   private callSid: string | null = null;
+  private customParameters: Record<string, string> = {};
   private mediaSequence: number = 0;
 
   constructor() {
@@ -127,7 +130,8 @@ export class TwilioMediaHandler extends EventEmitter<TwilioMediaHandlerEvents> {
           if (message.start) {
             this.streamSid = message.start.streamSid;
             this.callSid = message.start.callSid;
-            this.emit('start', this.streamSid, this.callSid);
+            this.customParameters = { ...message.start.customParameters };
+            this.emit('start', this.streamSid, this.callSid, { ...this.customParameters });
           }
           break;
 
@@ -141,6 +145,7 @@ export class TwilioMediaHandler extends EventEmitter<TwilioMediaHandlerEvents> {
           this.emit('stop');
           this.streamSid = null;
           this.callSid = null;
+          this.customParameters = {};
           break;
 
         case 'dtmf':
@@ -243,6 +248,13 @@ export class TwilioMediaHandler extends EventEmitter<TwilioMediaHandlerEvents> {
     return this.callSid;
   }
 
+  /**
+   * Get the custom parameters of the current stream
+   */
+  get parameters(): Record<string, string> {
+    return { ...this.customParameters };
+  }
+
   /**
    * Check if stream is active
    */
@@ -256,6 +268,7 @@ export class TwilioMediaHandler extends EventEmitter<TwilioMediaHandlerEvents> {
   reset(): void {
     this.streamSid = null;
     this.callSid = null;
+    this.customParameters = {};
     this.mediaSequence = 0;
   }
 }
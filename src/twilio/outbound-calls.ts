@@ -0,0 +1,200 @@
+/**
+ * Outbound Call Manager
+ *
+ * Places calls through the Twilio REST API whose TwiML connects straight to
+ * the bridge's Media Stream endpoint. The persona and caller metadata travel
+ * as stream `<Parameter>`s so the media handler can pick them up from the
+ * `start` message. Calls are tracked through Twilio status callbacks until
+ * they reach a final status.
+ */
+
+import { EventEmitter } from 'events';
+import { generateStreamTwiml } from './twiml.js';
+import type { TwilioCallControl } from './calls.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('outbound-calls');
+
+/** Call statuses after which Twilio sends no further callbacks */
+const FINAL_STATUSES: ReadonlySet<string> = new Set(['completed', 'busy', 'failed', 'no-answer', 'canceled']);
+
+/**
+ * Options for placing an outbound call
+ */
+export interface PlaceCallOptions {
+  /** Number to call (E.164) */
+  to: string;
+  /** Caller ID (default: the manager's default caller ID) */
+  from?: string;
+  /** Persona the bot should use, passed to the stream as the `persona` parameter */
+  persona?: string;
+  /** Extra values passed to the stream as custom parameters */
+  metadata?: Record<string, string>;
+  /** Record this call, overriding the persona and global settings (passed as the `record` parameter) */
+  record?: boolean;
+}
+
+/**
+ * Snapshot of a tracked outbound call
+ */
+export interface OutboundCall {
+  /** Twilio Call SID */
+  sid: string;
+  /** Number called */
+  to: string;
+  /** Caller ID used */
+  from: string;
+  /** Requested persona */
+  persona?: string;
+  /** Metadata passed to the stream */
+  metadata: Record<string, string>;
+  /** Latest Twilio call status (queued, ringing, in-progress, completed, ...) */
+  status: string;
+  /** When the call was placed */
+  createdAt: Date;
+  /** When the call reached a final status */
+  endedAt?: Date;
+  /** Call duration in seconds (reported on completion) */
+  durationSeconds?: number;
+}
+
+/**
+ * Outbound call manager options
+ */
+export interface OutboundCallManagerOptions {
+  /** REST API wrapper used to create calls */
+  callControl: TwilioCallControl;
+  /** Public base URL of the bridge (e.g., https://abc.ngrok.app) */
+  publicUrl: string;
+  /** Caller ID used when placeCall() gets no `from` */
+  defaultFrom?: string;
+}
+
+/**
+ * OutboundCallManager events
+ */
+export interface OutboundCallManagerEvents {
+  /** A tracked call changed status */
+  status: [call: OutboundCall];
+  /** A tracked call reached a final status and is no longer tracked */
+  completed: [call: OutboundCall];
+}
+
+/**
+ * Places and tracks outbound calls
+ *
+ * @example
+ * ```typescript
+ * const outbound = new OutboundCallManager({
+ *   callControl: new TwilioCallControl(config.twilio),
+ *   publicUrl: 'https://abc.ngrok.app',
+ *   defaultFrom: '+15551234567',
+ * });
+ *
+ * const call = await outbound.placeCall({ to: '+15557654321', persona: 'support' });
+ *
+ * // In the status callback route
+ * outbound.handleStatusCallback(request.body);
+ * ```
+ */
+export class OutboundCallManager extends EventEmitter<OutboundCallManagerEvents> {
+  private readonly callControl: TwilioCallControl;
+  private readonly publicUrl: string;
+  private readonly defaultFrom?: string;
+  private readonly calls = new Map<string, OutboundCall>();
+
+  constructor(options: OutboundCallManagerOptions) {
+    super();
+    this.callControl = options.callControl;
+    this.publicUrl = options.publicUrl.replace(/\/+$/, '');
+    this.defaultFrom = options.defaultFrom;
+  }
+
+  /**
+   * Place an outbound call connected to the bridge
+   *
+   * @throws Error if no caller ID is available or Twilio rejects the call
+   */
+  async placeCall(options: PlaceCallOptions): Promise<OutboundCall> {
+    const from = options.from ?? this.defaultFrom;
+    if (!from) {
+      throw new Error('No caller ID: pass `from` or configure TWILIO_PHONE_NUMBER');
+    }
+
+    const metadata = options.metadata ?? {};
+    const parameters: Record<string, string> = { ...metadata, direction: 'outbound' };
+    if (options.persona) {
+      parameters['persona'] = options.persona;
+    }
+    if (options.record !== undefined) {
+      parameters['record'] = String(options.record);
+    }
+
+    const wsUrl = `${this.publicUrl.replace(/^http/, 'ws')}/media-stream`;
+    const created = await this.callControl.createCall({
+      to: options.to,
+      from,
+      twiml: generateStreamTwiml(wsUrl, undefined, parameters),
+      statusCallback: `${this.publicUrl}/call-status`,
+    });
+
+    const call: OutboundCall = {
+      sid: created.sid,
+      to: options.to,
+      from,
+      persona: options.persona,
+      metadata,
+      status: created.status,
+      createdAt: new Date(),
+    };
+    this.calls.set(call.sid, call);
+    logger.info({ callSid: call.sid, to: call.to, persona: call.persona }, 'Placed outbound call');
+
+    return { ...call };
+  }
+
+  /**
+   * Apply a Twilio status callback
+   *
+   * @param params - Callback form parameters (CallSid, CallStatus, CallDuration, ...)
+   * @returns true if the callback belonged to a tracked call
+   */
+  handleStatusCallback(params: Record<string, string | undefined>): boolean {
+    const sid = params['CallSid'];
+    const status = params['CallStatus'];
+    const call = sid ? this.calls.get(sid) : undefined;
+    if (!call || !status) {
+      return false;
+    }
+
+    call.status = status;
+    if (params['CallDuration']) {
+      call.durationSeconds = Number(params['CallDuration']);
+    }
+    this.emit('status', { ...call });
+
+    if (FINAL_STATUSES.has(status)) {
+      call.endedAt = new Date();
+      this.calls.delete(call.sid);
+      logger.info({ callSid: call.sid, status, duration: call.durationSeconds }, 'Outbound call finished');
+      this.emit('completed', { ...call });
+    }
+
+    return true;
+  }
+
+  /**
+   * Get a snapshot of a call still in progress
+   */
+  get(sid: string): OutboundCall | null {
+    const call = this.calls.get(sid);
+    return call ? { ...call } : null;
+  }
+
+  /**
+   * Get a snapshot of all calls still in progress
+   */
+  list(): OutboundCall[] {
+    return [...this.calls.values()].map((call) => ({ ...call }));
+  }
+}
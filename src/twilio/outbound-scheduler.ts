@@ -0,0 +1,211 @@
+/**
+ * Outbound audio scheduler
+ *
+ * PersonaPlex delivers bot audio in bursts of arbitrary size. Twilio plays
+ * smoothest when it receives 20ms (160-sample) frames at a steady pace, so
+ * this scheduler:
+ * - Re-chunks 8kHz PCM into 20ms frames
+ * - Sends them on a real-time clock (catching up after timer lag)
+ * - Holds a jitter buffer whose target depth grows after underruns and
+ *   slowly shrinks back while playback is stable
+ */
+
+import { EventEmitter } from 'events';
+import { createTwilioBuffer, type AudioBuffer } from '../audio/buffer.js';
+
+const FRAME_MS = 20;
+const SAMPLES_PER_MS = 8; // 8kHz
+/** Timer granularity; frames are released based on elapsed time, not tick count */
+const TICK_MS = 10;
+/** Never release more than this many frames in one tick after a stall */
+const MAX_CATCH_UP_FRAMES = 5;
+
+/**
+ * Outbound scheduler options
+ */
+export interface OutboundSchedulerOptions {
+  /** Sends one 20ms frame (160 samples, PCM Float32 at 8kHz) */
+  send: (frame: Float32Array) => void;
+  /** Initial jitter buffer depth before playback starts (default: 60ms) */
+  targetDepthMs?: number;
+  /** Lower bound for the adaptive target depth (default: 40ms) */
+  minDepthMs?: number;
+  /** Upper bound for the adaptive target depth (default: 400ms) */
+  maxDepthMs?: number;
+  /** Shrink the target by one frame after this long without underruns (default: 10000ms) */
+  stableWindowMs?: number;
+  /** Maximum audio held before the oldest is dropped (default: 5000ms) */
+  maxBufferMs?: number;
+}
+
+/**
+ * Scheduler statistics
+ */
+export interface OutboundSchedulerStats {
+  /** Audio currently queued in ms */
+  queuedMs: number;
+  /** Current adaptive target depth in ms */
+  targetDepthMs: number;
+  /** Frames sent since start */
+  framesSent: number;
+  /** Underruns since start */
+  underruns: number;
+}
+
+/**
+ * OutboundScheduler events
+ */
+export interface OutboundSchedulerEvents {
+  /** Queue ran dry during playback; target depth was raised */
+  underrun: [stats: OutboundSchedulerStats];
+}
+
+/**
+ * Paces bot audio toward Twilio
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new OutboundScheduler({
+ *   send: (frame) => ws.send(handler.createAudioMessage(frame)),
+ * });
+ * scheduler.start();
+ *
+ * bot.on('audio', (pcm8k) => scheduler.push(pcm8k));
+ * bot.on('bargeIn', () => scheduler.flush());
+ * ```
+ */
+export class OutboundScheduler extends EventEmitter<OutboundSchedulerEvents> {
+  private readonly send: (frame: Float32Array) => void;
+  private readonly minDepthFrames: number;
+  private readonly maxDepthFrames: number;
+  private readonly stableWindowMs: number;
+  private readonly buffer: AudioBuffer;
+  private targetFrames: number;
+  private timer: NodeJS.Timeout | null = null;
+  private playing: boolean = false;
+  private playStartedAt: number = 0;
+  private framesSinceStart: number = 0;
+  private lastAdjustAt: number = 0;
+  private framesSent: number = 0;
+  private underruns: number = 0;
+
+  constructor(options: OutboundSchedulerOptions) {
+    super();
+    this.send = options.send;
+    this.minDepthFrames = Math.max(1, Math.round((options.minDepthMs ?? 40) / FRAME_MS));
+    this.maxDepthFrames = Math.max(this.minDepthFrames, Math.round((options.maxDepthMs ?? 400) / FRAME_MS));
+    this.targetFrames = clamp(
+      Math.round((options.targetDepthMs ?? 60) / FRAME_MS),
+      this.minDepthFrames,
+      this.maxDepthFrames,
+    );
+    this.stableWindowMs = options.stableWindowMs ?? 10000;
+    this.buffer = createTwilioBuffer(Math.ceil((options.maxBufferMs ?? 5000) / FRAME_MS));
+  }
+
+  /**
+   * Start the playback clock
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.lastAdjustAt = Date.now();
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  /**
+   * Stop the playback clock and drop queued audio
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.flush();
+  }
+
+  /**
+   * Queue bot audio (PCM Float32 at 8kHz, any length)
+   */
+  push(pcm: Float32Array): void {
+    this.buffer.push(pcm);
+  }
+
+  /**
+   * Drop all queued audio (e.g., on barge-in)
+   */
+  flush(): void {
+    this.buffer.clear();
+    this.playing = false;
+  }
+
+  /**
+   * Get current statistics
+   */
+  stats(): OutboundSchedulerStats {
+    return {
+      queuedMs: this.buffer.sampleCount() / SAMPLES_PER_MS,
+      targetDepthMs: this.targetFrames * FRAME_MS,
+      framesSent: this.framesSent,
+      underruns: this.underruns,
+    };
+  }
+
+  /**
+   * Release frames that are due on the playback clock
+   */
+  private tick(): void {
+    const now = Date.now();
+
+    if (!this.playing) {
+      // Pre-fill the jitter buffer before (re)starting playback
+      if (this.buffer.frameCount() < this.targetFrames) {
+        return;
+      }
+      this.playing = true;
+      this.playStartedAt = now;
+      this.framesSinceStart = 0;
+    }
+
+    const due = Math.floor((now - this.playStartedAt) / FRAME_MS) + 1 - this.framesSinceStart;
+    for (let i = 0; i < Math.min(due, MAX_CATCH_UP_FRAMES); i++) {
+      const frame = this.buffer.readFrame();
+      if (!frame) {
+        this.handleUnderrun(now);
+        return;
+      }
+      this.send(frame);
+      this.framesSent++;
+      this.framesSinceStart++;
+    }
+
+    if (due > MAX_CATCH_UP_FRAMES) {
+      // Timer stalled: re-anchor the clock instead of bursting the backlog
+      this.playStartedAt = now;
+      this.framesSinceStart = 1;
+    }
+
+    // Shrink the target while playback stays stable
+    if (now - this.lastAdjustAt >= this.stableWindowMs && this.targetFrames > this.minDepthFrames) {
+      this.targetFrames--;
+      this.lastAdjustAt = now;
+    }
+  }
+
+  /**
+   * Queue ran dry: raise the target depth and re-buffer
+   */
+  private handleUnderrun(now: number): void {
+    this.playing = false;
+    this.underruns++;
+    this.targetFrames = Math.min(this.targetFrames + 1, this.maxDepthFrames);
+    this.lastAdjustAt = now;
+    this.emit('underrun', this.stats());
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,63 @@
+/**
+ * Twilio SMS notifier
+ *
+ * Sends trigger notifications as text messages through the Twilio REST API.
+ */
+
+import twilio from 'twilio';
+import type { TwilioConfig } from '../config.js';
+import type { Notification, Notifier } from '../triggers/notifier.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('twilio-sms');
+
+/**
+ * SMS notifier options
+ */
+export interface TwilioSmsNotifierOptions {
+  /** Sender (E.164, must be an SMS-capable Twilio number on the account) */
+  from: string;
+  /** Recipient for notifications that do not name one */
+  defaultTo?: string;
+}
+
+/**
+ * Sends notifications as SMS
+ *
+ * @example
+ * ```typescript
+ * const sms = new TwilioSmsNotifier(config.twilio, { from: '+15550000001', defaultTo: '+15550000002' });
+ * await sms.notify({ triggerId: 'escalate', message: 'Caller needs a supervisor', match: 'supervisor' });
+ * ```
+ */
+export class TwilioSmsNotifier implements Notifier {
+  private readonly client: twilio.Twilio;
+  private readonly from: string;
+  private readonly defaultTo?: string;
+
+  /**
+   * @param config - Twilio credentials
+   * @param options - Sender and default recipient
+   * @param client - Preconfigured REST client; built from config when omitted
+   */
+  constructor(config: TwilioConfig, options: TwilioSmsNotifierOptions, client?: twilio.Twilio) {
+    this.client = client ?? twilio(config.accountSid, config.authToken);
+    this.from = options.from;
+    this.defaultTo = options.defaultTo;
+  }
+
+  /**
+   * Send a notification as a text message
+   *
+   * @throws Error if there is no recipient or Twilio rejects the message
+   */
+  async notify(notification: Notification): Promise<void> {
+    const to = notification.to ?? this.defaultTo;
+    if (!to) {
+      throw new Error(`No SMS recipient for trigger ${notification.triggerId}: set action.to or NOTIFY_SMS_TO`);
+    }
+
+    const message = await this.client.messages.create({ to, from: this.from, body: notification.message });
+    logger.info({ sid: message.sid, to, trigger: notification.triggerId }, 'Notification sent');
+  }
+}
@@ -9,6 +9,7 @@
  * 
  * @param wsUrl - WebSocket URL for the media stream (must be wss://)
  * @param welcomeMessage - Optional message to say before starting the stream
+ * @param parameters - Custom parameters delivered in the stream's `start` message
  * @returns TwiML XML string
  * 
  * @example
@@ -17,17 +18,24 @@
  * // Returns XML that connects the call to your WebSocket
  * ```
  */
-export function generateStreamTwiml(wsUrl: string, welcomeMessage?: string): string {
+export function generateStreamTwiml(
+  wsUrl: string,
+  welcomeMessage?: string,
+  parameters: Record<string, string> = {},
+): string {
   const sayElement = welcomeMessage 
     ? `<Say voice="Polly.Joanna">${escapeXml(welcomeMessage)}</Say>`
     : '';
+  const parameterElements = Object.entries(parameters)
+    .map(([name, value]) => `\n      <Parameter name="${escapeXml(name)}" value="${escapeXml(value)}"/>`)
+    .join('');
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
   ${sayElement}
   <Connect>
     <Stream url="${escapeXml(wsUrl)}">
-      <Parameter name="codec" value="audio/x-mulaw"/>
+      <Parameter name="codec" value="audio/x-mulaw"/>${parameterElements}
     </Stream>
   </Connect>
 </Response>`;
@@ -58,6 +66,138 @@ export function generateSayAndHangupTwiml(message: string, voice: string = 'Poll
 </Response>`;
 }
 
+/**
+ * Where a call can be transferred
+ */
+export type TransferTarget =
+  /** A phone number (E.164) */
+  | { type: 'number'; number: string }
+  /** A SIP endpoint, e.g. a contact-center PBX */
+  | { type: 'sip'; uri: string; username?: string; password?: string }
+  /** A Twilio queue the caller waits in until an agent dequeues them (see generateDequeueTwiml) */
+  | { type: 'queue'; name: string };
+
+/**
+ * Check a transfer target from a request body or config file
+ */
+export function isTransferTarget(value: unknown): value is TransferTarget {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const target = value as Record<string, unknown>;
+  const isText = (field: string) => typeof target[field] === 'string' && target[field] !== '';
+  const isOptionalText = (field: string) => target[field] === undefined || typeof target[field] === 'string';
+
+  switch (target['type']) {
+    case 'number':
+      return isText('number');
+    case 'sip':
+      return isText('uri') && isOptionalText('username') && isOptionalText('password');
+    case 'queue':
+      return isText('name');
+    default:
+      return false;
+  }
+}
+
+/**
+ * Options for a transfer's `<Dial>` or `<Enqueue>`
+ */
+export interface DialTwimlOptions {
+  /** Said to the caller before dialing */
+  message?: string;
+  /** URL of TwiML played to the agent before the caller is connected (e.g., a whisper); number and SIP targets only */
+  whisperUrl?: string;
+  /** URL Twilio requests when the caller leaves a queue (queue targets only) */
+  queueActionUrl?: string;
+  /** Seconds to ring before giving up (Twilio default: 30) */
+  timeoutSeconds?: number;
+  /** Caller ID shown to a number target (default: the caller's number) */
+  callerId?: string;
+  /** Twilio voice for the message (default: Polly.Joanna) */
+  voice?: string;
+}
+
+/**
+ * Generate TwiML that transfers the call: a `<Dial>` to a number or SIP URI,
+ * or an `<Enqueue>` that puts the caller in a queue
+ *
+ * Agents take queued callers with generateDequeueTwiml(); a queue target's
+ * whisper belongs there, since the agent's call is not known when the caller
+ * is enqueued.
+ *
+ * @example
+ * ```typescript
+ * const twiml = generateDialTwiml({ type: 'number', number: '+15551234567' }, {
+ *   message: 'Please hold while I transfer you.',
+ *   whisperUrl: 'https://example.com/transfer-whisper?call=CA123',
+ * });
+ * ```
+ */
+export function generateDialTwiml(target: TransferTarget, options: DialTwimlOptions = {}): string {
+  const sayElement = options.message
+    ? `<Say voice="${escapeXml(options.voice ?? 'Polly.Joanna')}">${escapeXml(options.message)}</Say>`
+    : '';
+  const dialAttributes = [
+    options.timeoutSeconds !== undefined ? ` timeout="${options.timeoutSeconds}"` : '',
+    options.callerId ? ` callerId="${escapeXml(options.callerId)}"` : '',
+  ].join('');
+
+  if (target.type === 'queue') {
+    const action = options.queueActionUrl ? ` action="${escapeXml(options.queueActionUrl)}"` : '';
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${sayElement}
+  <Enqueue${action}>${escapeXml(target.name)}</Enqueue>
+</Response>`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${sayElement}
+  <Dial${dialAttributes}>
+    ${generateDialNoun(target, options.whisperUrl)}
+  </Dial>
+</Response>`;
+}
+
+/**
+ * Generate TwiML for an agent's call that connects them to the caller waiting longest in a queue
+ *
+ * @param queue - Queue name
+ * @param whisper - Said to the agent before the caller is connected (e.g., the conversation summary)
+ * @param voice - Twilio voice for the whisper (default: Polly.Joanna)
+ */
+export function generateDequeueTwiml(queue: string, whisper?: string, voice: string = 'Polly.Joanna'): string {
+  const sayElement = whisper ? `<Say voice="${escapeXml(voice)}">${escapeXml(whisper)}</Say>` : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${sayElement}
+  <Dial>
+    <Queue>${escapeXml(queue)}</Queue>
+  </Dial>
+</Response>`;
+}
+
+/**
+ * Generate the `<Dial>` noun for a number or SIP target
+ */
+function generateDialNoun(target: Exclude<TransferTarget, { type: 'queue' }>, whisperUrl?: string): string {
+  const url = whisperUrl ? ` url="${escapeXml(whisperUrl)}"` : '';
+
+  switch (target.type) {
+    case 'number':
+      return `<Number${url}>${escapeXml(target.number)}</Number>`;
+    case 'sip': {
+      const credentials = [
+        target.username ? ` username="${escapeXml(target.username)}"` : '',
+        target.password ? ` password="${escapeXml(target.password)}"` : '',
+      ].join('');
+      return `<Sip${url}${credentials}>${escapeXml(target.uri)}</Sip>`;
+    }
+  }
+}
+
 /**
  * Escape special XML characters
  */
@@ -0,0 +1,66 @@
+/**
+ * Twilio webhook verification
+ *
+ * Twilio signs each webhook with HMAC-SHA1 over the full public URL plus the
+ * sorted POST parameters, keyed by the account auth token. Behind ngrok or a
+ * reverse proxy the URL Twilio called differs from what the server sees, so
+ * it is rebuilt from a configured public URL or the x-forwarded-* headers.
+ */
+
+import twilio from 'twilio';
+import type { IncomingHttpHeaders } from 'http';
+
+/**
+ * Parameters needed to verify one webhook request
+ */
+export interface WebhookSignatureCheck {
+  /** Twilio auth token */
+  authToken: string;
+  /** Value of the X-Twilio-Signature header */
+  signature: string | undefined;
+  /** Full public URL Twilio requested, including the query string */
+  url: string;
+  /** POST form parameters (empty for GET) */
+  params: Record<string, string>;
+}
+
+/**
+ * Check a webhook's X-Twilio-Signature
+ *
+ * @returns true if the signature matches
+ */
+export function validateWebhookSignature(check: WebhookSignatureCheck): boolean {
+  if (!check.signature) {
+    return false;
+  }
+  return twilio.validateRequest(check.authToken, check.signature, check.url, check.params);
+}
+
+/**
+ * Get the public base URL (scheme and host, no trailing slash) a request was sent to
+ *
+ * @param headers - Request headers
+ * @param fallbackProtocol - Protocol of the local connection (http or https)
+ * @param publicUrl - Configured public URL; takes precedence over headers
+ */
+export function getPublicBaseUrl(
+  headers: IncomingHttpHeaders,
+  fallbackProtocol: string,
+  publicUrl?: string,
+): string {
+  if (publicUrl) {
+    return publicUrl.replace(/\/+$/, '');
+  }
+
+  const protocol = firstHeaderValue(headers['x-forwarded-proto']) ?? fallbackProtocol;
+  const host = firstHeaderValue(headers['x-forwarded-host']) ?? headers.host ?? 'localhost:3000';
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Proxies may send a list ("https, http") or repeat a header; the first entry is the client-facing one
+ */
+function firstHeaderValue(value: string | string[] | undefined): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.split(',')[0]?.trim() || undefined;
+}
@@ -6,28 +6,105 @@
  */
 
 import { EventEmitter } from 'events';
-import type { VoiceBotConfig } from './config.js';
-import { PersonaPlexClient } from './personaplex/client.js';
-import { AudioBuffer, resample, TWILIO_SAMPLE_RATE, PERSONAPLEX_SAMPLE_RATE, FRAME_SIZE_MS, OpusCodec } from './audio/index.js';
+import {
+  mergePersonaPlexConfig,
+  type VoiceBotConfig,
+  type TimeoutConfig,
+  type PersonaPlexConfig,
+  type ResilienceConfig,
+} from './config.js';
+import { PersonaPlexClient, type PersonaPlexClientOptions } from './personaplex/client.js';
+import type { BackendPool } from './personaplex/backend-pool.js';
+import type { WarmConnectionPool } from './personaplex/warm-pool.js';
+import type { ControlActionName } from './personaplex/protocol.js';
+import type { TransferTarget } from './twilio/twiml.js';
+import {
+  AudioBuffer,
+  createResampler,
+  TWILIO_SAMPLE_RATE,
+  PERSONAPLEX_SAMPLE_RATE,
+  FRAME_SIZE_MS,
+  OpusCodec,
+  BargeInDetector,
+  VoiceActivityDetector,
+  type BargeInOptions,
+  type VadOptions,
+  type Resampler,
+  type ResamplerQuality,
+} from './audio/index.js';
+import { Transcript } from './transcript/index.js';
+import { TriggerEngine, fillTemplate, type Notifier, type TriggerDefinition, type TriggerMatch } from './triggers/index.js';
+import { DigitCollector, type CollectionEnd, type DigitCollectorOptions } from './dtmf/index.js';
 import { createLogger } from './utils/logger.js';
 import type { WebSocket } from 'ws';
 
 const logger = createLogger('voice-bot');
 
+/**
+ * Why a session ended
+ */
+export type SessionEndReason =
+  /** endSession() was called (e.g., the caller hung up) */
+  | 'requested'
+  /** PersonaPlex closed the connection */
+  | 'backendDisconnected'
+  /** No caller speech within the caller silence timeout */
+  | 'callerSilence'
+  /** No bot speech or text within the bot silence timeout */
+  | 'botSilence'
+  /** Maximum call duration reached */
+  | 'maxDuration'
+  /** The call was handed off with transferCall() */
+  | 'transferred'
+  /** A trigger's hangup action ended the call */
+  | 'triggered';
+
+/**
+ * A hand-off requested with transferCall()
+ */
+export interface CallTransfer {
+  /** Where to send the caller */
+  target: TransferTarget;
+  /** Short summary of the conversation so far, e.g. to whisper to the agent */
+  summary: string;
+  /** Why the bot is transferring, if given */
+  reason?: string;
+}
+
 /**
  * VoiceBot events
  */
 export interface VoiceBotEvents {
   /** Bot is ready to receive audio */
   ready: [];
-  /** Audio response from bot (PCM Float32 at target sample rate) */
+  /** Audio response from bot (PCM Float32 at outputSampleRate) */
   audio: [pcm: Float32Array];
   /** Text response from bot */
   text: [text: string];
+  /** Caller started talking while the bot was speaking; queued playback should be cleared */
+  bargeIn: [];
+  /** Caller started speaking (ms of caller audio since session start) */
+  speechStart: [timestamp: number];
+  /** Caller stopped speaking */
+  speechEnd: [timestamp: number, durationMs: number];
+  /** PersonaPlex sent a control message */
+  control: [action: ControlActionName];
+  /** PersonaPlex dropped mid-call and a resilient session is reconnecting (caller audio is dropped meanwhile) */
+  reconnecting: [reason: string];
+  /** A resilient session reconnected and the conversation continues */
+  resumed: [attempts: number];
+  /** A trigger matched the bot's text (its action runs after the trigger's delay) */
+  trigger: [match: TriggerMatch];
+  /** A trigger with an `event` action fired */
+  triggerEvent: [name: string, match: TriggerMatch];
+  /** The caller pressed a key */
+  dtmf: [digit: string];
+  /** The caller finished entering digits (terminator key, pause or maximum length) */
+  digitsCollected: [digits: string, end: CollectionEnd];
   /** Error occurred */
   error: [error: Error];
   /** Session ended */
-  ended: [];
+  ended: [reason: SessionEndReason];
 }
 
 /**
@@ -40,8 +117,50 @@ export interface VoiceBotSessionOptions {
   outputSampleRate?: number;
   /** Input sample rate (default: 8000 for Twilio) */
   inputSampleRate?: number;
+  /** Resampler quality / CPU tradeoff (default: config.audio.resamplerQuality, else medium) */
+  resamplerQuality?: ResamplerQuality;
+  /** Barge-in detection (default: enabled). Pass false to disable or options to tune. */
+  bargeIn?: BargeInOptions | boolean;
+  /** Voice activity detection tuning (sample rate follows inputSampleRate) */
+  vad?: Omit<VadOptions, 'sampleRate'>;
+  /** Inactivity and duration timeouts in ms, 0 disables (default: config.timeouts, else disabled) */
+  timeouts?: Partial<Omit<TimeoutConfig, 'closingPrompt'>>;
+  /** PersonaPlex settings for this session only (e.g., a persona's prompts), merged over config.personaplex */
+  personaplex?: Partial<PersonaPlexConfig>;
+  /** Pick a backend from this pool (with failover) instead of `config.personaplex.url` */
+  backendPool?: BackendPool;
+  /** Use a pre-connected conversation from this pool when one matches; connect on demand otherwise */
+  warmPool?: WarmConnectionPool;
+  /** Mid-call reconnection settings (default: config.resilience, else disabled) */
+  resilience?: Partial<Omit<ResilienceConfig, 'fillerAudioFile'>>;
+  /** Hands the call off for transferCall() (e.g., by updating the live Twilio call); transfers fail without one */
+  transfer?: (transfer: CallTransfer) => Promise<void>;
+  /** Phrases in the bot's text that run actions (default: config.triggers) */
+  triggers?: TriggerDefinition[];
+  /** Delivers trigger `notify` actions (notifications are dropped without one) */
+  notifier?: Notifier;
+  /** Hangs up the call for trigger `hangup` actions, after the session has ended */
+  hangup?: (message?: string) => Promise<void>;
+  /** Keypad entry settings (default: config.dtmf) */
+  dtmf?: DigitCollectorOptions & {
+    /** Add entered digits to the conversation with injectContext() */
+    injectDigits?: boolean;
+  };
+  /** Text added to the prompt, e.g. the caller's menu choice */
+  context?: string[];
 }
 
+/** Session timeout handles, keyed by field name */
+type SessionTimer = 'callerSilenceTimer' | 'botSilenceTimer' | 'maxDurationTimer';
+
+/** Connection attempts per backend before failing over to the next one */
+const POOLED_CONNECT_ATTEMPTS = 2;
+/** Handshake timeout per backend before failing over to the next one */
+const POOLED_CONNECT_TIMEOUT_MS = 15000;
+
+/** Upper bound on how long stale bot audio is dropped after a barge-in */
+const MAX_BARGE_IN_DROP_MS = 1500;
+
 /**
  * VoiceBot - High-level voice conversation bot
  * 
@@ -73,11 +192,41 @@ export class VoiceBot extends EventEmitter<VoiceBotEvents> {
   private isSessionActive: boolean = false;
   private opusCodec: OpusCodec | null = null;
   private inputSampleRate: number = TWILIO_SAMPLE_RATE;
+  private outputSampleRate: number = TWILIO_SAMPLE_RATE;
+  private inputResampler: Resampler | null = null;
+  private outputResampler: Resampler | null = null;
+  private bargeInDetector: BargeInDetector | null = null;
+  private vad: VoiceActivityDetector | null = null;
+  private dropOutputUntil: number = 0;
+  private isPaused: boolean = false;
+  private isReconnecting: boolean = false;
+  private isTransferring: boolean = false;
+  private transferHandler: ((transfer: CallTransfer) => Promise<void>) | null = null;
+  private hangupHandler: ((message?: string) => Promise<void>) | null = null;
+  private notifier: Notifier | null = null;
+  private triggerEngine: TriggerEngine | null = null;
+  /** Trigger actions waiting for their delay */
+  private readonly triggerTimers = new Set<NodeJS.Timeout>();
+  private digitCollector: DigitCollector | null = null;
+  private injectDigits: boolean = false;
+  private resilience: Omit<ResilienceConfig, 'fillerAudioFile'> = { enabled: false, maxAttempts: 0, retryDelayMs: 0, recapMaxChars: 0 };
+  private sessionBackendPool: BackendPool | null = null;
+  private transcript: Transcript | null = null;
+  /** Session time (ms) at which queued bot audio finishes playing */
+  private botPlaybackEndMs: number = 0;
+  private backendPool: BackendPool | null = null;
+  private backendUrl: string | null = null;
+  private sessionConfig: PersonaPlexConfig;
+  private timeouts: Omit<TimeoutConfig, 'closingPrompt'> = { callerSilenceMs: 0, botSilenceMs: 0, maxCallDurationMs: 0 };
+  private callerSilenceTimer: NodeJS.Timeout | null = null;
+  private botSilenceTimer: NodeJS.Timeout | null = null;
+  private maxDurationTimer: NodeJS.Timeout | null = null;
 
   constructor(config: VoiceBotConfig) {
     super();
     this.config = config;
-    this.opusCodec = new OpusCodec();
+    this.sessionConfig = config.personaplex;
+    this.opusCodec = new OpusCodec(config.audio?.opus);
   }
 
   /**
@@ -88,7 +237,66 @@ export class VoiceBot extends EventEmitter<VoiceBotEvents> {
       throw new Error('Session already active');
     }
 
+    this.sessionConfig = mergePersonaPlexConfig(this.config.personaplex, options?.personaplex);
+    for (const text of options?.context ?? []) {
+      this.sessionConfig = { ...this.sessionConfig, textPrompt: appendPrompt(this.sessionConfig.textPrompt, text) };
+    }
+
     this.inputSampleRate = options?.inputSampleRate ?? TWILIO_SAMPLE_RATE;
+    this.outputSampleRate = options?.outputSampleRate ?? TWILIO_SAMPLE_RATE;
+
+    // Per-session resamplers keep filter state across chunks
+    const quality = options?.resamplerQuality ?? this.config.audio?.resamplerQuality ?? 'medium';
+    this.inputResampler = createResampler(this.inputSampleRate, PERSONAPLEX_SAMPLE_RATE, quality);
+    this.outputResampler = createResampler(PERSONAPLEX_SAMPLE_RATE, this.outputSampleRate, quality);
+
+    const bargeIn = options?.bargeIn ?? true;
+    this.bargeInDetector = new BargeInDetector(typeof bargeIn === 'boolean' ? { enabled: bargeIn } : bargeIn);
+    this.dropOutputUntil = 0;
+
+    this.vad = new VoiceActivityDetector({ ...options?.vad, sampleRate: this.inputSampleRate });
+    this.vad.on('speechStart', (timestamp) => {
+      // The caller is active; the silence clock restarts when they stop
+      this.clearTimer('callerSilenceTimer');
+      this.transcript?.startCallerSpeech(this.callerTimeMs(timestamp));
+      this.emit('speechStart', timestamp);
+    });
+    this.vad.on('speechEnd', (timestamp, durationMs) => {
+      this.armTimer('callerSilenceTimer', this.timeouts.callerSilenceMs, 'callerSilence');
+      this.transcript?.endCallerSpeech(this.callerTimeMs(timestamp));
+      this.emit('speechEnd', timestamp, durationMs);
+    });
+
+    this.resilience = {
+      enabled: options?.resilience?.enabled ?? this.config.resilience?.enabled ?? false,
+      maxAttempts: options?.resilience?.maxAttempts ?? this.config.resilience?.maxAttempts ?? 3,
+      retryDelayMs: options?.resilience?.retryDelayMs ?? this.config.resilience?.retryDelayMs ?? 1000,
+      recapMaxChars: options?.resilience?.recapMaxChars ?? this.config.resilience?.recapMaxChars ?? 1500,
+    };
+    this.sessionBackendPool = options?.backendPool ?? null;
+    this.transferHandler = options?.transfer ?? null;
+    this.hangupHandler = options?.hangup ?? null;
+    this.notifier = options?.notifier ?? null;
+
+    const triggers = options?.triggers ?? this.config.triggers ?? [];
+    this.triggerEngine = triggers.length > 0 ? new TriggerEngine(triggers) : null;
+    this.triggerEngine?.on('match', (match) => this.handleTrigger(match));
+
+    const dtmf = this.config.dtmf;
+    this.digitCollector = new DigitCollector({
+      interDigitTimeoutMs: options?.dtmf?.interDigitTimeoutMs ?? dtmf?.interDigitTimeoutMs,
+      terminators: options?.dtmf?.terminators ?? dtmf?.terminators,
+      maxDigits: options?.dtmf?.maxDigits ?? dtmf?.maxDigits,
+    });
+    this.digitCollector.on('collected', (digits, end) => this.handleDigits(digits, end));
+    this.injectDigits = options?.dtmf?.injectDigits ?? dtmf?.injectDigits ?? false;
+    this.transcript = null;
+
+    this.timeouts = {
+      callerSilenceMs: options?.timeouts?.callerSilenceMs ?? this.config.timeouts?.callerSilenceMs ?? 0,
+      botSilenceMs: options?.timeouts?.botSilenceMs ?? this.config.timeouts?.botSilenceMs ?? 0,
+      maxCallDurationMs: options?.timeouts?.maxCallDurationMs ?? this.config.timeouts?.maxCallDurationMs ?? 0,
+    };
 
     // Create input buffer for accumulating audio frames (PCM Float32)
     const frameSize = Math.round(PERSONAPLEX_SAMPLE_RATE * FRAME_SIZE_MS / 1000);
@@ -96,55 +304,165 @@ export class VoiceBot extends EventEmitter<VoiceBotEvents> {
 
     // Ensure codec is ready
     if (!this.opusCodec) {
-        this.opusCodec = new OpusCodec();
+        this.opusCodec = new OpusCodec(this.config.audio?.opus);
     }
 
-    // Create PersonaPlex client
-    this.personaplexClient = new PersonaPlexClient({
-      config: this.config.personaplex,
+    // Connect
+    try {
+      const warm = options?.warmPool ? await options.warmPool.take(this.sessionConfig) : null;
+      if (warm) {
+        this.personaplexClient = this.attachClient(warm.client);
+        this.backendPool = warm.backendPool;
+        this.backendUrl = warm.backendUrl;
+      } else if (options?.backendPool) {
+        await this.connectToPool(options.backendPool);
+      } else {
+        this.personaplexClient = this.createClient(this.sessionConfig.url, {
+          maxReconnectAttempts: 30, // Retry for ~2 minutes (enough for CPU load time)
+        });
+        await this.personaplexClient.connect();
+      }
+      this.isSessionActive = true;
+      // The transcript timeline starts when caller audio starts flowing
+      this.transcript = new Transcript();
+      this.botPlaybackEndMs = 0;
+      this.armTimer('callerSilenceTimer', this.timeouts.callerSilenceMs, 'callerSilence');
+      this.armTimer('botSilenceTimer', this.timeouts.botSilenceMs, 'botSilence');
+      this.armTimer('maxDurationTimer', this.timeouts.maxCallDurationMs, 'maxDuration');
+      this.emit('ready');
+      logger.info({
+        backend: this.backendUrl ?? this.sessionConfig.url,
+        voicePrompt: this.sessionConfig.voicePrompt,
+        warm: warm !== null,
+      }, 'VoiceBot session started');
+    } catch (error) {
+      await this.cleanup();
+      throw error;
+    }
+  }
+
+  /**
+   * Connect to the least-loaded backend, failing over to the next one on rejection or timeout
+   */
+  private async connectToPool(pool: BackendPool, config: PersonaPlexConfig = this.sessionConfig, avoid?: string): Promise<void> {
+    // A backend to avoid is only used once every other one has failed
+    const tried = new Set<string>(avoid ? [avoid] : []);
+    this.backendPool = pool;
+
+    for (;;) {
+      let url = pool.acquire(tried);
+      if (!url && avoid && tried.delete(avoid)) {
+        url = pool.acquire(tried);
+      }
+      if (!url) {
+        throw new Error(`No PersonaPlex backend available (tried ${tried.size})`);
+      }
+      tried.add(url);
+      this.backendUrl = url;
+
+      const client = this.createClient(url, {
+        maxReconnectAttempts: POOLED_CONNECT_ATTEMPTS,
+        connectTimeout: POOLED_CONNECT_TIMEOUT_MS,
+      }, config);
+      this.personaplexClient = client;
+
+      try {
+        await client.connect();
+        pool.markHealthy(url);
+        return;
+      } catch (error) {
+        logger.warn({ url, err: error }, 'PersonaPlex backend failed, trying next');
+        pool.markUnhealthy(url, error instanceof Error ? error : new Error(String(error)));
+        pool.release(url);
+        this.backendUrl = null;
+        this.personaplexClient = null;
+        await client.close();
+      }
+    }
+  }
+
+  /**
+   * Create a PersonaPlex client for the given backend and wire up its events
+   */
+  private createClient(
+    url: string,
+    options: Pick<PersonaPlexClientOptions, 'maxReconnectAttempts' | 'connectTimeout'>,
+    config: PersonaPlexConfig = this.sessionConfig,
+  ): PersonaPlexClient {
+    return this.attachClient(new PersonaPlexClient({
+      config: { ...config, url },
       autoReconnect: true,
-      maxReconnectAttempts: 30, // Retry for ~2 minutes (enough for CPU load time)
       reconnectDelay: 2000,
-    });
+      ...options,
+    }));
+  }
 
-    // Set up event handlers
-    this.personaplexClient.on('audio', (opusData) => {
+  /**
+   * Route a client's events into this session
+   */
+  private attachClient(client: PersonaPlexClient): PersonaPlexClient {
+    client.on('audio', (opusData) => {
       // Decode Opus to PCM
       try {
         if (this.opusCodec) {
           const decodedPcm = this.opusCodec.decode(opusData);
-          this.emit('audio', decodedPcm);
+          if (this.isPaused) {
+            return;
+          }
+          if (this.bargeInDetector?.isBotVoiced(decodedPcm)) {
+            this.armTimer('botSilenceTimer', this.timeouts.botSilenceMs, 'botSilence');
+          }
+          if (this.shouldDropOutput(decodedPcm)) {
+            return;
+          }
+          const output = this.outputResampler ? this.outputResampler.process(decodedPcm) : decodedPcm;
+          if (output.length > 0) {
+            this.recordBotAudio(decodedPcm.length * 1000 / PERSONAPLEX_SAMPLE_RATE);
+            this.emit('audio', output);
+          }
         }
       } catch (err) {
         logger.error({ err }, 'Failed to decode Opus audio');
       }
     });
 
-    this.personaplexClient.on('text', (text) => {
+    client.on('text', (text) => {
+      if (this.isPaused) {
+        return;
+      }
+      // Text arrives with its audio, which plays once the audio queued before it has.
+      // The rest of an utterance the caller barged in on is never heard, so it stays out.
+      if (this.dropOutputUntil === 0) {
+        this.transcript?.addBotText(text, Math.max(this.elapsedMs(), this.botPlaybackEndMs));
+      }
+      this.triggerEngine?.push(text);
+      this.armTimer('botSilenceTimer', this.timeouts.botSilenceMs, 'botSilence');
       this.emit('text', text);
     });
 
-    this.personaplexClient.on('error', (error) => {
+    client.on('control', (action) => {
+      this.emit('control', action);
+    });
+
+    client.on('error', (error) => {
       this.emit('error', error);
     });
 
-    this.personaplexClient.on('disconnected', () => {
-      if (this.isSessionActive) {
-        this.isSessionActive = false;
-        this.emit('ended');
+    client.on('disconnected', (reason) => {
+      if (!this.isSessionActive || client !== this.personaplexClient) {
+        return;
       }
+      if (this.resilience.enabled) {
+        void this.reconnect(reason);
+        return;
+      }
+      this.isSessionActive = false;
+      this.clearTimers();
+      this.transcript?.close(this.elapsedMs());
+      this.emit('ended', 'backendDisconnected');
     });
 
-    // Connect
-    try {
-      await this.personaplexClient.connect();
-      this.isSessionActive = true;
-      this.emit('ready');
-      logger.info('VoiceBot session started');
-    } catch (error) {
-      this.cleanup();
-      throw error;
-    }
+    return client;
   }
 
   /**
@@ -153,16 +471,27 @@ export class VoiceBot extends EventEmitter<VoiceBotEvents> {
    * @param pcm - PCM Float32 audio data at inputSampleRate
    */
   sendAudio(pcm: Float32Array): void {
-    if (!this.isSessionActive || !this.personaplexClient || !this.inputBuffer) {
+    if (!this.isSessionActive || !this.inputBuffer) {
       throw new Error('Session not active');
     }
+    if (this.isReconnecting || !this.personaplexClient) {
+      // Nobody is listening until the conversation resumes
+      return;
+    }
 
-    // Resample to PersonaPlex rate if needed
-    let audioData = pcm;
-    if (this.inputSampleRate !== PERSONAPLEX_SAMPLE_RATE) {
-      audioData = resample(pcm, this.inputSampleRate, PERSONAPLEX_SAMPLE_RATE);
+    if (this.bargeInDetector?.processCallerAudio(pcm, this.inputSampleRate)) {
+      // Drop the rest of the interrupted utterance still in flight from PersonaPlex
+      this.dropOutputUntil = Date.now() + MAX_BARGE_IN_DROP_MS;
+      this.stopBotPlayback();
+      logger.debug('Barge-in detected');
+      this.emit('bargeIn');
     }
 
+    this.vad?.process(pcm);
+
+    // Resample to PersonaPlex rate if needed
+    const audioData = this.inputResampler ? this.inputResampler.process(pcm) : pcm;
+
     // Add to buffer
     this.inputBuffer.push(audioData);
 
@@ -170,10 +499,11 @@ export class VoiceBot extends EventEmitter<VoiceBotEvents> {
     while (this.inputBuffer.hasFrame()) {
       const frame = this.inputBuffer.readFrame();
       if (frame && this.opusCodec) {
-          // Encode to Opus and send
+          // Encode to Opus (split into legal Opus frame durations) and send
            try {
-              const opusPacket = this.opusCodec.encode(frame);
-              this.personaplexClient.sendAudio(opusPacket);
+              for (const opusPacket of this.opusCodec.encodeFrames(frame)) {
+                this.personaplexClient.sendAudio(opusPacket);
+              }
            } catch (err) {
               logger.error({ err }, 'Failed to encode Opus audio');
            }
@@ -181,18 +511,169 @@ export class VoiceBot extends EventEmitter<VoiceBotEvents> {
     }
   }
 
+  /**
+   * Send a keypress from the caller (e.g., a Twilio `dtmf` event)
+   *
+   * @param digit - 0-9, *, #, or A-D
+   */
+  sendDigit(digit: string): void {
+    if (!this.isSessionActive) {
+      throw new Error('Session not active');
+    }
+
+    // A keypress shows the caller is still there
+    this.armTimer('callerSilenceTimer', this.timeouts.callerSilenceMs, 'callerSilence');
+    this.emit('dtmf', digit);
+    this.digitCollector?.push(digit);
+  }
+
+  /**
+   * Add text to the conversation, e.g. what the caller entered on the keypad
+   *
+   * PersonaPlex only reads text in the prompt it connects with, so the text is
+   * added to the session's prompt and the conversation reconnects with it and
+   * a recap of the call so far (as after a dropped connection: `reconnecting`,
+   * then `resumed`).
+   *
+   * @throws Error if no session is active
+   */
+  injectContext(text: string): void {
+    if (!this.isSessionActive) {
+      throw new Error('Session not active');
+    }
+
+    this.sessionConfig = { ...this.sessionConfig, textPrompt: appendPrompt(this.sessionConfig.textPrompt, text) };
+    logger.info({ chars: text.length }, 'Adding context to the conversation');
+    if (!this.isReconnecting) {
+      // A reconnect already under way picks up the new prompt on its next attempt
+      void this.reconnect('context');
+    }
+  }
+
   /**
    * End the current session
+   *
+   * @param reason - Reported on the `ended` event (default: requested, or transferred during a transfer)
    */
-  async endSession(): Promise<void> {
+  async endSession(reason: SessionEndReason = 'requested'): Promise<void> {
+    if (this.isTransferring) {
+      // The hand-off itself ends the media stream, which may end the session first
+      reason = 'transferred';
+    }
     if (!this.isSessionActive) {
+      // Session may have ended on its own (backend disconnect); still release its resources
+      await this.cleanup();
       return;
     }
 
     this.isSessionActive = false;
     await this.cleanup();
-    this.emit('ended');
-    logger.info('VoiceBot session ended');
+    this.emit('ended', reason);
+    logger.info({ reason }, 'VoiceBot session ended');
+  }
+
+  /**
+   * Hand the caller off (e.g., to a human agent) and end the session
+   *
+   * Runs the session's `transfer` handler with a summary of the conversation,
+   * then ends the session with reason `transferred`. If the handler fails, the
+   * conversation carries on and the error is rethrown.
+   *
+   * @param target - Number, SIP URI or queue to send the caller to
+   * @param reason - Why the bot is transferring, added to the summary
+   * @throws Error if no session is active, no transfer handler is set or the hand-off fails
+   */
+  async transferCall(target: TransferTarget, reason?: string): Promise<void> {
+    if (!this.isSessionActive) {
+      throw new Error('Session not active');
+    }
+    if (!this.transferHandler) {
+      throw new Error('Call transfer is not available for this session');
+    }
+    if (this.isTransferring) {
+      throw new Error('Transfer already in progress');
+    }
+
+    const summary = [reason ? `Reason for transfer: ${reason}.` : '', this.transcript?.summary() ?? '']
+      .filter(Boolean)
+      .join(' ');
+    logger.info({ target, reason }, 'Transferring call');
+
+    this.isTransferring = true;
+    try {
+      await this.transferHandler({ target, summary, reason });
+    } catch (error) {
+      this.isTransferring = false;
+      throw error;
+    }
+    await this.endSession('transferred');
+  }
+
+  /**
+   * Pause the conversation (e.g., while the caller is on hold)
+   *
+   * Sends a `pause` control message and mutes the bot: its audio and text are
+   * dropped and the silence timeouts are suspended until resume().
+   */
+  pause(): void {
+    this.sendControl('pause');
+    this.isPaused = true;
+    this.clearTimer('callerSilenceTimer');
+    this.clearTimer('botSilenceTimer');
+    logger.info('VoiceBot paused');
+  }
+
+  /**
+   * Resume a paused conversation
+   */
+  resume(): void {
+    this.sendControl('start');
+    this.isPaused = false;
+    this.armTimer('callerSilenceTimer', this.timeouts.callerSilenceMs, 'callerSilence');
+    this.armTimer('botSilenceTimer', this.timeouts.botSilenceMs, 'botSilence');
+    logger.info('VoiceBot resumed');
+  }
+
+  /**
+   * Restart the conversation context (e.g., after a transfer), keeping the connection
+   *
+   * Also resumes a paused conversation and drops caller audio not yet sent.
+   */
+  restart(): void {
+    this.sendControl('restart');
+    this.isPaused = false;
+    this.dropOutputUntil = 0;
+    this.inputBuffer?.clear();
+    this.bargeInDetector?.reset();
+    this.vad?.reset();
+    // The VAD drops an open speech segment on reset
+    this.transcript?.endCallerSpeech(this.elapsedMs());
+    this.triggerEngine?.reset();
+    this.digitCollector?.clear();
+    this.armTimer('callerSilenceTimer', this.timeouts.callerSilenceMs, 'callerSilence');
+    this.armTimer('botSilenceTimer', this.timeouts.botSilenceMs, 'botSilence');
+    logger.info('VoiceBot conversation restarted');
+  }
+
+  /**
+   * Check if the conversation is paused
+   */
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * Check if a resilient session is reconnecting to PersonaPlex
+   */
+  get reconnecting(): boolean {
+    return this.isReconnecting;
+  }
+
+  /**
+   * Transcript of the current session, or of the last one once it ended (null before the first session starts)
+   */
+  getTranscript(): Transcript | null {
+    return this.transcript;
   }
 
   /**
@@ -202,18 +683,348 @@ export class VoiceBot extends EventEmitter<VoiceBotEvents> {
     return this.isSessionActive;
   }
 
+  /**
+   * URL of the pooled backend serving this session (null when not using a pool)
+   */
+  get backend(): string | null {
+    return this.backendUrl;
+  }
+
+  /**
+   * Reconnect a resilient session after PersonaPlex dropped, resuming with a recap of the call
+   *
+   * @param reason - Why the connection dropped, or 'context' when injectContext() changed the prompt
+   */
+  private async reconnect(reason: string): Promise<void> {
+    const refresh = reason === 'context';
+    const dropped = this.personaplexClient;
+    const droppedUrl = this.backendUrl;
+
+    this.isReconnecting = true;
+    this.personaplexClient = null;
+    // Queued bot audio is cleared for the filler
+    this.stopBotPlayback();
+    this.clearTimer('callerSilenceTimer');
+    this.clearTimer('botSilenceTimer');
+    if (refresh) {
+      logger.info({ backend: droppedUrl ?? this.sessionConfig.url }, 'Reconnecting to PersonaPlex with the updated prompt');
+    } else {
+      logger.warn({ reason, backend: droppedUrl ?? this.sessionConfig.url }, 'PersonaPlex dropped mid-call, reconnecting');
+    }
+    this.emit('reconnecting', reason);
+
+    // Stop the dropped client's own reconnects; the resumed conversation needs a new prompt
+    await dropped?.close();
+    if (this.backendPool && droppedUrl) {
+      this.backendPool.release(droppedUrl);
+    }
+    this.backendPool = null;
+    this.backendUrl = null;
+
+    // A healthy backend is only avoided after a drop
+    const avoid = refresh ? undefined : droppedUrl ?? undefined;
+    const attempts = refresh ? Math.max(1, this.resilience.maxAttempts) : this.resilience.maxAttempts;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      // Nothing failed before a refresh's first attempt, so it need not wait
+      const delayMs = refresh && attempt === 1 ? 0 : this.resilience.retryDelayMs * attempt;
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      if (!this.isSessionActive) {
+        return;
+      }
+
+      // Built per attempt so context injected meanwhile is included
+      const config: PersonaPlexConfig = { ...this.sessionConfig, textPrompt: this.buildRecapPrompt(refresh) };
+
+      try {
+        if (this.sessionBackendPool) {
+          await this.connectToPool(this.sessionBackendPool, config, avoid);
+        } else {
+          this.personaplexClient = this.createClient(config.url, {
+            maxReconnectAttempts: POOLED_CONNECT_ATTEMPTS,
+            connectTimeout: POOLED_CONNECT_TIMEOUT_MS,
+          }, config);
+          await this.personaplexClient.connect();
+        }
+      } catch (error) {
+        logger.warn({ attempt, err: error }, 'PersonaPlex reconnect attempt failed');
+        await this.personaplexClient?.close();
+        this.personaplexClient = null;
+        continue;
+      }
+
+      if (!this.isSessionActive) {
+        // Ended while the handshake ran
+        this.isReconnecting = false;
+        await this.cleanup();
+        return;
+      }
+
+      this.isReconnecting = false;
+      this.inputBuffer?.clear();
+      this.bargeInDetector?.reset();
+      this.dropOutputUntil = 0;
+      if (this.isPaused) {
+        this.personaplexClient?.sendControl('pause');
+      } else {
+        this.armTimer('callerSilenceTimer', this.timeouts.callerSilenceMs, 'callerSilence');
+        this.armTimer('botSilenceTimer', this.timeouts.botSilenceMs, 'botSilence');
+      }
+      logger.info({ attempts: attempt, backend: this.backendUrl ?? config.url }, 'VoiceBot session resumed');
+      this.emit('resumed', attempt);
+      return;
+    }
+
+    this.isReconnecting = false;
+    if (this.isSessionActive) {
+      logger.error({ attempts }, 'Could not reconnect to PersonaPlex, ending session');
+      this.isSessionActive = false;
+      await this.cleanup();
+      this.emit('ended', 'backendDisconnected');
+    }
+  }
+
+  /**
+   * Text prompt for a resumed conversation: the session prompt plus what the bot already said
+   *
+   * @param refresh - The prompt changed (new context) rather than the connection dropping
+   */
+  private buildRecapPrompt(refresh: boolean = false): string {
+    const limit = this.resilience.recapMaxChars;
+    const recap = limit > 0 ? (this.transcript?.textOf('bot') ?? '').slice(-limit).trim() : '';
+    if (!recap) {
+      return this.sessionConfig.textPrompt;
+    }
+    const interruption = refresh
+      ? 'This phone call was paused for a moment while new information (above) came in. '
+      : 'This phone call was briefly interrupted by a technical problem and has just reconnected. ';
+    return `${this.sessionConfig.textPrompt}\n\n`
+      + interruption
+      + `Before the interruption you said: "${recap}" `
+      + 'Continue the conversation from there instead of starting over.';
+  }
+
+  /**
+   * Report a completed keypad entry and add it to the conversation if configured
+   */
+  private handleDigits(digits: string, end: CollectionEnd): void {
+    logger.debug({ digits: digits.length, end }, 'Caller entered digits');
+    this.emit('digitsCollected', digits, end);
+
+    if (this.injectDigits && this.isSessionActive) {
+      this.injectContext(`The caller entered ${digits} on their phone keypad.`);
+    }
+  }
+
+  /**
+   * Report a trigger match and run its action once its delay has passed
+   */
+  private handleTrigger(match: TriggerMatch): void {
+    logger.debug({ trigger: match.trigger.id, text: match.text, action: match.trigger.action.type }, 'Trigger matched');
+    this.emit('trigger', match);
+
+    const delayMs = match.trigger.delayMs ?? 0;
+    if (delayMs <= 0) {
+      void this.runTriggerAction(match);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.triggerTimers.delete(timer);
+      void this.runTriggerAction(match);
+    }, delayMs);
+    this.triggerTimers.add(timer);
+  }
+
+  /**
+   * Run a trigger's action; failures are reported as `error` events
+   */
+  private async runTriggerAction(match: TriggerMatch): Promise<void> {
+    const { trigger } = match;
+    const action = trigger.action;
+    if (!this.isSessionActive) {
+      return;
+    }
+
+    try {
+      switch (action.type) {
+        case 'transfer':
+          await this.transferCall(action.target, action.reason ?? `The assistant said "${match.text}"`);
+          break;
+
+        case 'hangup':
+          await this.endSession('triggered');
+          await this.hangupHandler?.(action.message);
+          break;
+
+        case 'notify':
+          if (!this.notifier) {
+            logger.warn({ trigger: trigger.id }, 'No notifier for this session, dropping notification');
+            break;
+          }
+          await this.notifier.notify({
+            triggerId: trigger.id,
+            message: fillTemplate(action.message, { match: match.text }),
+            to: action.to,
+            match: match.text,
+          });
+          break;
+
+        case 'event':
+          this.emit('triggerEvent', action.name, match);
+          break;
+      }
+    } catch (error) {
+      logger.error({ trigger: trigger.id, err: error }, 'Trigger action failed');
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Session time in ms (the transcript timeline)
+   */
+  private elapsedMs(): number {
+    return this.transcript ? Date.now() - this.transcript.startedAt.getTime() : 0;
+  }
+
+  /**
+   * Map a VAD timestamp to session time
+   *
+   * The VAD counts time from the caller audio it processed, which skips audio
+   * dropped while reconnecting and restarts on restart().
+   */
+  private callerTimeMs(vadTimestamp: number): number {
+    return this.elapsedMs() - ((this.vad?.currentTime ?? vadTimestamp) - vadTimestamp);
+  }
+
+  /**
+   * Advance the playback clock by one chunk of bot audio sent to the caller
+   */
+  private recordBotAudio(durationMs: number): void {
+    const startMs = Math.max(this.elapsedMs(), this.botPlaybackEndMs);
+    this.botPlaybackEndMs = startMs + durationMs;
+    this.transcript?.addBotAudio(startMs, this.botPlaybackEndMs);
+  }
+
+  /**
+   * Bot audio queued for the caller is being cleared; the current utterance ends now
+   */
+  private stopBotPlayback(): void {
+    const now = this.elapsedMs();
+    this.transcript?.interruptBot(now);
+    this.botPlaybackEndMs = now;
+  }
+
+  /**
+   * Send a control message on the active session
+   */
+  private sendControl(action: ControlActionName): void {
+    if (!this.isSessionActive) {
+      throw new Error('Session not active');
+    }
+    // While reconnecting there is no conversation to control; a pause is re-applied on resume
+    this.personaplexClient?.sendControl(action);
+  }
+
+  /**
+   * (Re)start a timeout that ends the session; a duration of 0 leaves it disabled
+   */
+  private armTimer(timer: SessionTimer, durationMs: number, reason: SessionEndReason): void {
+    this.clearTimer(timer);
+    if (durationMs <= 0 || !this.isSessionActive) {
+      return;
+    }
+
+    this[timer] = setTimeout(() => {
+      this[timer] = null;
+      logger.info({ reason, durationMs }, 'Session timed out');
+      void this.endSession(reason);
+    }, durationMs);
+  }
+
+  /**
+   * Stop a single session timeout
+   */
+  private clearTimer(timer: SessionTimer): void {
+    const handle = this[timer];
+    if (handle) {
+      clearTimeout(handle);
+      this[timer] = null;
+    }
+  }
+
+  /**
+   * Stop all session timeouts
+   */
+  private clearTimers(): void {
+    this.clearTimer('callerSilenceTimer');
+    this.clearTimer('botSilenceTimer');
+    this.clearTimer('maxDurationTimer');
+  }
+
+  /**
+   * Track bot speech and decide whether a decoded frame belongs to an interrupted utterance
+   */
+  private shouldDropOutput(pcm: Float32Array): boolean {
+    if (!this.bargeInDetector) {
+      return false;
+    }
+
+    if (this.dropOutputUntil !== 0) {
+      // Keep dropping until the first pause in bot speech, or until the safety cap
+      if (this.bargeInDetector.isBotVoiced(pcm) && Date.now() < this.dropOutputUntil) {
+        return true;
+      }
+      this.dropOutputUntil = 0;
+    }
+
+    this.bargeInDetector.processBotAudio(pcm, PERSONAPLEX_SAMPLE_RATE);
+    return false;
+  }
+
   /**
    * Clean up resources
    */
   private async cleanup(): Promise<void> {
+    this.clearTimers();
+    // The transcript outlives the session for export
+    this.transcript?.close(this.elapsedMs());
+    this.isPaused = false;
+    this.isReconnecting = false;
+    this.isTransferring = false;
+    this.triggerEngine?.dispose();
+    this.triggerEngine = null;
+    for (const timer of this.triggerTimers) {
+      clearTimeout(timer);
+    }
+    this.triggerTimers.clear();
+    this.digitCollector?.dispose();
+    this.digitCollector = null;
     if (this.personaplexClient) {
       await this.personaplexClient.close();
       this.personaplexClient = null;
     }
+    if (this.backendPool && this.backendUrl) {
+      this.backendPool.release(this.backendUrl);
+    }
+    this.backendPool = null;
+    this.backendUrl = null;
     if (this.opusCodec) {
        this.opusCodec.delete();
        this.opusCodec = null;
     }
     this.inputBuffer = null;
+    this.inputResampler = null;
+    this.outputResampler = null;
+    this.bargeInDetector = null;
+    this.vad?.removeAllListeners();
+    this.vad = null;
+    this.dropOutputUntil = 0;
   }
 }
+
+/**
+ * Add a paragraph of context to a text prompt
+ */
+function appendPrompt(prompt: string, text: string): string {
+  return prompt ? `${prompt}\n\n${text}` : text;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { AudioBuffer } from '../src/audio/index.js';
+
+function ramp(from: number, count: number): Float32Array {
+  return Float32Array.from({ length: count }, (_, i) => from + i);
+}
+
+describe('AudioBuffer', () => {
+  it('returns frames in order across wraparounds', () => {
+    const buffer = new AudioBuffer(4, 3);
+    const read: number[] = [];
+
+    // Chunks that don't line up with frames or the 12-sample ring
+    let next = 0;
+    for (const size of [5, 3, 7, 2, 6, 1]) {
+      buffer.push(ramp(next, size));
+      next += size;
+      for (const frame of buffer.readAllFrames()) {
+        read.push(...frame);
+      }
+    }
+
+    expect(read).toEqual([...ramp(0, 24)]);
+    expect(buffer.sampleCount()).toBe(0);
+  });
+
+  it('drops the oldest samples when full', () => {
+    const buffer = new AudioBuffer(4, 2);
+    buffer.push(ramp(0, 6));
+    buffer.push(ramp(6, 5));
+
+    expect(buffer.sampleCount()).toBe(8);
+    expect(buffer.fillLevel()).toBe(100);
+    expect([...buffer.readFrame()!]).toEqual([3, 4, 5, 6]);
+    expect([...buffer.peek()]).toEqual([7, 8, 9, 10]);
+  });
+
+  it('keeps only the newest samples of a chunk larger than the buffer', () => {
+    const buffer = new AudioBuffer(2, 2);
+    buffer.push(ramp(0, 3));
+    buffer.push(ramp(10, 9));
+
+    expect([...buffer.peek()]).toEqual([15, 16, 17, 18]);
+    expect([...buffer.peek(2)]).toEqual([15, 16]);
+    expect(buffer.frameCount()).toBe(2);
+
+    buffer.clear();
+    expect(buffer.readFrame()).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import { createConfig } from '../src/config.js';
+import { createServer } from '../src/server/app.js';
+
+describe('call control API', () => {
+  let server: FastifyInstance;
+
+  beforeAll(async () => {
+    server = await createServer(createConfig({
+      server: { port: 0, host: '127.0.0.1', apiToken: 'secret-token' },
+      logLevel: 'error',
+    }));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('rejects placing a call without a bearer token', async () => {
+    const response = await server.inject({ method: 'POST', url: '/calls', payload: { to: '+15550000002' } });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+  });
+
+  it('rejects a wrong token on every /calls route', async () => {
+    const headers = { authorization: 'Bearer wrong-token' };
+    const requests = [
+      server.inject({ method: 'POST', url: '/calls', headers, payload: { to: '+15550000002' } }),
+      server.inject({ method: 'GET', url: '/calls', headers }),
+      server.inject({ method: 'GET', url: '/calls/CA1', headers }),
+      server.inject({ method: 'POST', url: '/calls/CA1/transfer', headers, payload: { target: { type: 'queue', name: 'support' } } }),
+    ];
+
+    for (const response of await Promise.all(requests)) {
+      expect(response.statusCode).toBe(401);
+    }
+  });
+
+  it('lets requests with the configured token through', async () => {
+    const response = await server.inject({
+      method: 'GET',
+      url: '/calls',
+      headers: { authorization: 'Bearer secret-token' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ calls: [] });
+  });
+});
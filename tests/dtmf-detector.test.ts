@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DtmfDetector,
+  dtmfFrequencies,
+  generateDtmf,
+  generateTone,
+  mulawToPcm,
+  pcmToMulaw,
+  type DtmfDetectorOptions,
+} from '../src/audio/index.js';
+
+const ALL_KEYS = '0123456789*#ABCD';
+
+/**
+ * Run PCM through a detector in 20ms chunks, like Twilio media messages
+ */
+function detect(pcm: Float32Array, options: DtmfDetectorOptions = {}): string {
+  const detector = new DtmfDetector(options);
+  const chunk = Math.round((options.sampleRate ?? 8000) * 0.02);
+  let digits = '';
+  detector.on('dtmf', (digit) => {
+    digits += digit;
+  });
+  for (let offset = 0; offset < pcm.length; offset += chunk) {
+    detector.process(pcm.subarray(offset, offset + chunk));
+  }
+  return digits;
+}
+
+function noise(samples: number, amplitude: number): Float32Array {
+  const pcm = new Float32Array(samples);
+  let state = 7;
+  for (let i = 0; i < samples; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    pcm[i] = (state / 0x7fffffff - 0.5) * 2 * amplitude;
+  }
+  return pcm;
+}
+
+describe('DtmfDetector', () => {
+  it('detects every key generated at 8kHz', () => {
+    expect(detect(generateDtmf(ALL_KEYS))).toBe(ALL_KEYS);
+  });
+
+  it('detects every key generated at 24kHz', () => {
+    expect(detect(generateDtmf(ALL_KEYS, { sampleRate: 24000 }), { sampleRate: 24000 })).toBe(ALL_KEYS);
+  });
+
+  it('detects keys after a mu-law round trip', () => {
+    expect(detect(mulawToPcm(pcmToMulaw(generateDtmf(ALL_KEYS))))).toBe(ALL_KEYS);
+  });
+
+  it('detects short tones with short gaps', () => {
+    expect(detect(generateDtmf('159#', { toneMs: 50, gapMs: 50 }))).toBe('159#');
+  });
+
+  it('reports a held key once', () => {
+    expect(detect(generateDtmf('5', { toneMs: 2000 }))).toBe('5');
+  });
+
+  it('ignores noise, chords and single tones', () => {
+    expect(detect(noise(16000, 0.5))).toBe('');
+    // Two row frequencies and two column frequencies at once
+    expect(detect(generateTone([697, 770, 1209, 1336], 500))).toBe('');
+    expect(detect(generateTone([697], 500))).toBe('');
+    expect(detect(generateTone([1336], 500))).toBe('');
+  });
+});
+
+describe('generateDtmf', () => {
+  it('lays out tones, gaps and pauses', () => {
+    // Two 100ms digits with 100ms gaps and a 500ms pause at 8kHz
+    expect(generateDtmf('1,2')).toHaveLength(2 * (800 + 800) + 4000);
+    expect(dtmfFrequencies('a')).toEqual([697, 1633]);
+    expect(dtmfFrequencies('x')).toBeNull();
+  });
+
+  it('rejects keys that are not DTMF', () => {
+    expect(() => generateDtmf('12x')).toThrow(/Not a DTMF key: "x"/);
+  });
+});
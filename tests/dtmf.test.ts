@@ -0,0 +1,136 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { DigitCollector, DtmfMenu, validateDtmfMenu, type CollectionEnd, type DtmfMenuDefinition, type DtmfMenuResult } from '../src/dtmf/index.js';
+
+function collect(collector: DigitCollector): Array<[string, CollectionEnd]> {
+  const entries: Array<[string, CollectionEnd]> = [];
+  collector.on('collected', (digits, end) => entries.push([digits, end]));
+  return entries;
+}
+
+function press(target: { push(digit: string): void }, digits: string): void {
+  for (const digit of digits) {
+    target.push(digit);
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('DigitCollector', () => {
+  it('ends an entry on a terminator, which is not part of it', () => {
+    const collector = new DigitCollector();
+    const entries = collect(collector);
+
+    press(collector, '#1234#');
+
+    expect(entries).toEqual([['1234', 'terminator']]);
+    collector.dispose();
+  });
+
+  it('ends an entry after a pause', () => {
+    vi.useFakeTimers();
+    const collector = new DigitCollector({ interDigitTimeoutMs: 3000 });
+    const entries = collect(collector);
+
+    press(collector, '12');
+    vi.advanceTimersByTime(2999);
+    collector.push('3');
+    vi.advanceTimersByTime(2999);
+    expect(entries).toEqual([]);
+    vi.advanceTimersByTime(1);
+
+    expect(entries).toEqual([['123', 'timeout']]);
+    collector.dispose();
+  });
+
+  it('ends an entry at maxDigits and ignores keys a keypad cannot send', () => {
+    const collector = new DigitCollector({ maxDigits: 4 });
+    const entries = collect(collector);
+
+    press(collector, '12x3E45');
+
+    expect(entries).toEqual([['1234', 'maxDigits']]);
+    expect(collector.digits).toBe('5');
+    collector.dispose();
+  });
+});
+
+describe('DtmfMenu', () => {
+  const definition: DtmfMenuDefinition = {
+    prompt: 'For billing press 1, for support press 12, for an agent press 0.',
+    options: {
+      '1': { type: 'persona', persona: 'billing' },
+      '12': { type: 'persona', persona: 'support' },
+      '0': { type: 'transfer', target: { type: 'queue', name: 'agents' } },
+    },
+    default: { type: 'context', text: 'The caller skipped the menu.' },
+    timeoutMs: 5000,
+  };
+
+  function run(digits: string): DtmfMenuResult | null {
+    let result: DtmfMenuResult | null = null;
+    const menu = new DtmfMenu(definition);
+    menu.on('done', (done) => {
+      result = done;
+    });
+    menu.start();
+    press(menu, digits);
+    menu.dispose();
+    return result;
+  }
+
+  it('completes as soon as the digits can only mean one option', () => {
+    expect(run('0')).toEqual({ action: definition.options['0'], digits: '0', outcome: 'selected' });
+    expect(run('12')).toEqual({ action: definition.options['12'], digits: '12', outcome: 'selected' });
+  });
+
+  it('waits for a terminator when an option is a prefix of another', () => {
+    expect(run('1')).toBeNull();
+    expect(run('1#')).toEqual({ action: definition.options['1'], digits: '1', outcome: 'selected' });
+  });
+
+  it('falls back to the default on an invalid choice', () => {
+    expect(run('7')).toEqual({ action: definition.default, digits: '7', outcome: 'invalid' });
+  });
+
+  it('falls back to the default when nothing is chosen in time', () => {
+    vi.useFakeTimers();
+    const results: DtmfMenuResult[] = [];
+    const menu = new DtmfMenu(definition);
+    menu.on('done', (result) => results.push(result));
+    menu.start();
+
+    vi.advanceTimersByTime(5000);
+
+    expect(results).toEqual([{ action: definition.default, digits: '', outcome: 'timeout' }]);
+    menu.dispose();
+  });
+});
+
+describe('validateDtmfMenu', () => {
+  const check = (raw: unknown) => () => validateDtmfMenu(raw, 'DTMF_MENU');
+  const persona = { type: 'persona', persona: 'support' };
+
+  it('accepts a valid menu', () => {
+    const menu = { prompt: 'Press 1.', options: { '1': persona } };
+    expect(validateDtmfMenu(menu, 'DTMF_MENU')).toEqual(menu);
+  });
+
+  it('rejects bad keys, prompts and timeouts', () => {
+    expect(check([])).toThrow(/expected an object/);
+    expect(check({ options: { '1': persona } })).toThrow(/prompt/);
+    expect(check({ prompt: 'Hi', options: {} })).toThrow(/options/);
+    expect(check({ prompt: 'Hi', options: { '1#': persona } })).toThrow(/option "1#"/);
+    expect(check({ prompt: 'Hi', options: { x: persona } })).toThrow(/option "x"/);
+    expect(check({ prompt: 'Hi', options: { '1': persona }, timeoutMs: 0 })).toThrow(/timeoutMs/);
+  });
+
+  it('rejects bad actions', () => {
+    expect(check({ prompt: 'Hi', options: { '1': { type: 'dance' } } })).toThrow(/DTMF_MENU.options.1: type/);
+    expect(check({ prompt: 'Hi', options: { '1': { type: 'persona' } } })).toThrow(/persona must be/);
+    expect(check({ prompt: 'Hi', options: { '1': { type: 'context', text: '' } } })).toThrow(/text must be/);
+    expect(check({ prompt: 'Hi', options: { '1': { type: 'transfer', target: { type: 'number' } } } })).toThrow(/target/);
+    expect(check({ prompt: 'Hi', options: { '1': persona }, default: { type: 'transfer' } })).toThrow(/DTMF_MENU.default/);
+  });
+});
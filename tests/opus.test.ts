@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { OpusCodec, PERSONAPLEX_SAMPLE_RATE, FRAME_SIZE_MS } from '../src/audio/index.js';
+
+const CHUNK_SAMPLES = (PERSONAPLEX_SAMPLE_RATE * FRAME_SIZE_MS) / 1000; // 1920
+
+function sine(frequency: number, samples: number): Float32Array {
+  const pcm = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    pcm[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / PERSONAPLEX_SAMPLE_RATE);
+  }
+  return pcm;
+}
+
+/** Deterministic white noise, which Opus cannot compress much below the target bitrate */
+function noise(samples: number): Float32Array {
+  const pcm = new Float32Array(samples);
+  let state = 1;
+  for (let i = 0; i < samples; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    pcm[i] = (state / 0x7fffffff - 0.5) * 0.5;
+  }
+  return pcm;
+}
+
+function rms(pcm: Float32Array): number {
+  let sum = 0;
+  for (const sample of pcm) sum += sample * sample;
+  return Math.sqrt(sum / pcm.length);
+}
+
+describe('OpusCodec', () => {
+  it('round-trips an 80ms chunk through encodeFrames and decode', () => {
+    const codec = new OpusCodec();
+    const chunk = sine(440, CHUNK_SAMPLES);
+
+    const packets = codec.encodeFrames(chunk);
+    expect(packets).toHaveLength(4); // 4 x 20ms
+
+    const decoded = packets.map((packet) => codec.decode(packet));
+    const totalSamples = decoded.reduce((sum, pcm) => sum + pcm.length, 0);
+    expect(totalSamples).toBe(CHUNK_SAMPLES);
+
+    // Energy survives the lossy round trip (encoder warm-up affects the first frame)
+    const last = decoded[decoded.length - 1]!;
+    expect(rms(last)).toBeGreaterThan(rms(chunk) * 0.7);
+    expect(rms(last)).toBeLessThan(rms(chunk) * 1.3);
+
+    codec.delete();
+  });
+
+  it('splits into the configured frame duration', () => {
+    const codec = new OpusCodec({ frameDurationMs: 40 });
+    expect(codec.samplesPerFrame).toBe(960);
+    expect(codec.encodeFrames(sine(440, CHUNK_SAMPLES))).toHaveLength(2);
+    codec.delete();
+  });
+
+  it('rejects chunks that are not a single legal Opus frame', () => {
+    const codec = new OpusCodec();
+    expect(() => codec.encode(new Float32Array(CHUNK_SAMPLES))).toThrow(/Invalid Opus frame size/);
+    expect(() => codec.encodeFrames(new Float32Array(500))).toThrow(/not a multiple/);
+    codec.delete();
+  });
+
+  it('applies the bitrate setting', () => {
+    const bytesAt = (bitrate: number) => {
+      const codec = new OpusCodec({ bitrate });
+      const bytes = codec.encodeFrames(noise(CHUNK_SAMPLES * 10)).reduce((sum, packet) => sum + packet.length, 0);
+      codec.delete();
+      return bytes;
+    };
+
+    // 8 vs 64 kbps: about an eighth of the bytes for the same 800ms of audio
+    expect(bytesAt(8000) * 4).toBeLessThan(bytesAt(64000));
+  });
+
+  it('sends tiny packets for silence with DTX', () => {
+    const silence = new Float32Array(CHUNK_SAMPLES * 10);
+    const smallestLate = (dtx: boolean) => {
+      const codec = new OpusCodec({ dtx });
+      // DTX kicks in after a few hundred ms of silence
+      const packets = codec.encodeFrames(silence).slice(-10);
+      codec.delete();
+      return Math.min(...packets.map((packet) => packet.length));
+    };
+
+    expect(smallestLate(true)).toBeLessThanOrEqual(2);
+    expect(smallestLate(false)).toBeGreaterThan(2);
+  });
+
+  it('validates encoder settings', () => {
+    expect(() => new OpusCodec({ complexity: 11 })).toThrow(/complexity/);
+    expect(() => new OpusCodec({ bitrate: 100 })).toThrow(/bitrate/);
+  });
+});
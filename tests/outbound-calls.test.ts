@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import twilio from 'twilio';
+import { TwilioCallControl, OutboundCallManager } from '../src/twilio/index.js';
+
+const ACCOUNT_SID = 'AC' + '0'.repeat(32);
+
+interface RecordedRequest {
+  method: string;
+  uri: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Local stand-in for the Twilio REST API: records requests and answers Calls.create
+ */
+class FakeTwilioApi {
+  readonly requests: RecordedRequest[] = [];
+  failWith: { status: number; message: string } | null = null;
+  private nextSid = 1;
+
+  async request(opts: { method: string; uri: string; data?: Record<string, unknown> }) {
+    this.requests.push({ method: opts.method, uri: opts.uri, data: opts.data ?? {} });
+
+    if (this.failWith) {
+      return {
+        statusCode: this.failWith.status,
+        body: JSON.stringify({ code: 21211, message: this.failWith.message, status: this.failWith.status }),
+        headers: {},
+      };
+    }
+
+    const sid = `CA${String(this.nextSid++).padStart(32, '0')}`;
+    return {
+      statusCode: 201,
+      body: JSON.stringify({ sid, account_sid: ACCOUNT_SID, status: 'queued', to: opts.data?.['To'], from: opts.data?.['From'] }),
+      headers: {},
+    };
+  }
+}
+
+describe('OutboundCallManager', () => {
+  let api: FakeTwilioApi;
+  let manager: OutboundCallManager;
+
+  beforeEach(() => {
+    api = new FakeTwilioApi();
+    const client = twilio(ACCOUNT_SID, 'token', { httpClient: api as unknown as twilio.RequestClient });
+    manager = new OutboundCallManager({
+      callControl: new TwilioCallControl({ accountSid: ACCOUNT_SID, authToken: 'token' }, client),
+      publicUrl: 'https://bridge.example.com/',
+      defaultFrom: '+15550000001',
+    });
+  });
+
+  it('creates a call whose TwiML streams to the bridge with persona and metadata parameters', async () => {
+    const call = await manager.placeCall({
+      to: '+15550000002',
+      persona: 'support',
+      metadata: { ticket: 'T-42' },
+    });
+
+    expect(call.status).toBe('queued');
+    expect(call.from).toBe('+15550000001');
+    expect(api.requests).toHaveLength(1);
+
+    const request = api.requests[0]!;
+    expect(request.method.toLowerCase()).toBe('post');
+    expect(request.uri).toBe(`https://api.twilio.com/2010-04-01/Accounts/${ACCOUNT_SID}/Calls.json`);
+    expect(request.data['To']).toBe('+15550000002');
+    expect(request.data['From']).toBe('+15550000001');
+    expect(request.data['StatusCallback']).toBe('https://bridge.example.com/call-status');
+
+    const twiml = String(request.data['Twiml']);
+    expect(twiml).toContain('<Stream url="wss://bridge.example.com/media-stream">');
+    expect(twiml).toContain('<Parameter name="persona" value="support"/>');
+    expect(twiml).toContain('<Parameter name="ticket" value="T-42"/>');
+    expect(twiml).toContain('<Parameter name="direction" value="outbound"/>');
+  });
+
+  it('tracks status callbacks until the call completes', async () => {
+    const call = await manager.placeCall({ to: '+15550000002' });
+    const statuses: string[] = [];
+    const completed: string[] = [];
+    manager.on('status', (update) => statuses.push(update.status));
+    manager.on('completed', (done) => completed.push(done.sid));
+
+    expect(manager.handleStatusCallback({ CallSid: call.sid, CallStatus: 'ringing' })).toBe(true);
+    expect(manager.handleStatusCallback({ CallSid: call.sid, CallStatus: 'in-progress' })).toBe(true);
+    expect(manager.get(call.sid)?.status).toBe('in-progress');
+
+    manager.handleStatusCallback({ CallSid: call.sid, CallStatus: 'completed', CallDuration: '37' });
+
+    expect(statuses).toEqual(['ringing', 'in-progress', 'completed']);
+    expect(completed).toEqual([call.sid]);
+    expect(manager.get(call.sid)).toBeNull();
+    expect(manager.list()).toEqual([]);
+  });
+
+  it('ignores callbacks for calls it did not place', () => {
+    expect(manager.handleStatusCallback({ CallSid: 'CAunknown', CallStatus: 'completed' })).toBe(false);
+  });
+
+  it('requires a caller ID', async () => {
+    const client = twilio(ACCOUNT_SID, 'token', { httpClient: api as unknown as twilio.RequestClient });
+    const noDefault = new OutboundCallManager({
+      callControl: new TwilioCallControl({ accountSid: ACCOUNT_SID, authToken: 'token' }, client),
+      publicUrl: 'https://bridge.example.com',
+    });
+
+    await expect(noDefault.placeCall({ to: '+15550000002' })).rejects.toThrow(/caller ID/);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it('surfaces REST API errors without tracking the call', async () => {
+    api.failWith = { status: 400, message: "The 'To' number is not a valid phone number." };
+
+    await expect(manager.placeCall({ to: 'not-a-number' })).rejects.toThrow(/not a valid phone number/);
+    expect(manager.list()).toEqual([]);
+  });
+});
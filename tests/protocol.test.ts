@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { encodeMessage, decodeMessage, type DecodedMessage, type ProtocolMessage } from '../src/protocol/index.js';
+import {
+  encodeAudioMessage,
+  encodeControlMessage,
+  encodePingMessage,
+  encodeTextMessage,
+  decodeMessage as decodeNodeMessage,
+} from '../src/personaplex/protocol.js';
+
+interface Fixture {
+  name: string;
+  bytes: string;
+  message: Record<string, unknown>;
+}
+
+const fixtures = JSON.parse(
+  readFileSync(new URL('./fixtures/protocol.json', import.meta.url), 'utf8'),
+) as { roundTrip: Fixture[]; decodeOnly: Fixture[] };
+
+function bytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+/** Fixture messages keep audio payloads as hex */
+function toMessage(fixture: Fixture): ProtocolMessage {
+  const message = fixture.message;
+  return (message['type'] === 'audio' ? { type: 'audio', data: bytes(message['data'] as string) } : message) as ProtocolMessage;
+}
+
+describe('shared protocol conformance', () => {
+  it.each(fixtures.roundTrip.map((fixture) => [fixture.name, fixture] as const))('encodes %s', (_name, fixture) => {
+    expect(Buffer.from(encodeMessage(toMessage(fixture))).toString('hex')).toBe(fixture.bytes);
+  });
+
+  it.each(fixtures.roundTrip.map((fixture) => [fixture.name, fixture] as const))('decodes %s', (_name, fixture) => {
+    expect(decodeMessage(bytes(fixture.bytes))).toEqual(toMessage(fixture));
+  });
+
+  it.each(fixtures.decodeOnly.map((fixture) => [fixture.name, fixture] as const))('decodes %s without throwing', (_name, fixture) => {
+    const decoded = decodeMessage(bytes(fixture.bytes));
+    expect(decoded).toMatchObject(fixture.message);
+    if (decoded.type === 'invalid') {
+      expect(decoded.reason).toBeTruthy();
+    }
+  });
+
+  it('returns audio payloads the caller owns', () => {
+    const raw = bytes('01010203');
+    const decoded = decodeMessage(raw) as Extract<DecodedMessage, { type: 'audio' }>;
+    raw[1] = 0xff;
+    expect([...decoded.data]).toEqual([1, 2, 3]);
+  });
+});
+
+describe('Node protocol wrappers', () => {
+  const golden = (name: string) => fixtures.roundTrip.find((fixture) => fixture.name === name)!.bytes;
+
+  it('encode the same bytes as the shared module', () => {
+    expect(encodeAudioMessage(Buffer.from('OpusPacket')).toString('hex')).toBe(golden('audio'));
+    expect(encodeTextMessage('Hello').toString('hex')).toBe(golden('text'));
+    expect(encodeControlMessage('pause').toString('hex')).toBe(golden('control pause'));
+    expect(encodePingMessage().toString('hex')).toBe(golden('ping'));
+  });
+
+  it('decode audio payloads as Buffers', () => {
+    const decoded = decodeNodeMessage(Buffer.from(golden('audio'), 'hex'));
+    expect(decoded.type).toBe('audio');
+    expect(Buffer.isBuffer(decoded.type === 'audio' ? decoded.data : null)).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { decodeWav } from '../src/audio/index.js';
+import { CallRecorder, applyRetention } from '../src/recording/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'recording-test-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+function constant(value: number, samples: number): Float32Array {
+  return new Float32Array(samples).fill(value);
+}
+
+describe('CallRecorder', () => {
+  it('writes a stereo WAV whose header matches its data, with a metadata sidecar', async () => {
+    const recorder = new CallRecorder({ directory, callId: 'CA123' });
+    await recorder.start();
+    recorder.writeCaller(constant(0.5, 1600), 0);
+    const result = await recorder.stop({ persona: 'support' });
+
+    expect(result).not.toBeNull();
+    const data = await readFile(result!.wavPath);
+    expect(data.readUInt32LE(4)).toBe(data.length - 8);
+    expect(data.readUInt32LE(40)).toBe(data.length - 44);
+
+    const wav = decodeWav(data);
+    expect(wav.sampleRate).toBe(8000);
+    expect(wav.channels).toBe(2);
+    expect(wav.samples).toHaveLength(1600);
+    expect(result!.durationMs).toBe(200);
+
+    const sidecar = JSON.parse(await readFile(result!.metadataPath, 'utf8'));
+    expect(sidecar).toMatchObject({ persona: 'support', callId: 'CA123', durationMs: 200, channels: ['caller', 'bot'] });
+  });
+
+  it('fills a gap in caller timestamps with silence', async () => {
+    const recorder = new CallRecorder({ directory, callId: 'CA123' });
+    await recorder.start();
+    // 20ms at 0ms, then the packets for 20-500ms never arrive
+    recorder.writeCaller(constant(0.5, 160), 0);
+    recorder.writeCaller(constant(0.5, 160), 500);
+    const result = await recorder.stop();
+
+    // Caller on the left, silent bot on the right: the mono mix is half the caller
+    const { samples } = decodeWav(await readFile(result!.wavPath));
+    expect(samples).toHaveLength(4160);
+    expect(samples[100]).toBeCloseTo(0.25, 3);
+    expect(samples.subarray(160, 4000).every((sample) => sample === 0)).toBe(true);
+    expect(samples[4100]).toBeCloseTo(0.25, 3);
+  });
+});
+
+describe('applyRetention', () => {
+  const now = Date.now();
+
+  async function store(name: string, bytes: number, ageDays: number, finished: boolean): Promise<void> {
+    const files = finished ? [`${name}.wav`, `${name}.json`] : [`${name}.wav`];
+    const modified = new Date(now - ageDays * DAY_MS);
+    for (const file of files) {
+      await writeFile(join(directory, file), Buffer.alloc(file.endsWith('.wav') ? Math.round(bytes) : 10));
+      await utimes(join(directory, file), modified, modified);
+    }
+  }
+
+  it('deletes recordings older than the retention period', async () => {
+    await store('old', 100, 10, true);
+    await store('new', 100, 1, true);
+
+    const deleted = await applyRetention(directory, { retentionDays: 7, maxTotalMb: 0 }, now);
+
+    expect(deleted).toEqual(['old']);
+    expect((await readdir(directory)).sort()).toEqual(['new.json', 'new.wav']);
+  });
+
+  it('deletes the oldest finished recordings over the size limit, never an unfinished one', async () => {
+    // 2.7MB in all; dropping one finished recording fits 2MB
+    await store('recording', 0.9 * MB, 3, false);
+    await store('oldest-finished', 0.9 * MB, 2, true);
+    await store('newest-finished', 0.9 * MB, 1, true);
+
+    const deleted = await applyRetention(directory, { retentionDays: 0, maxTotalMb: 2 }, now);
+
+    expect(deleted).toEqual(['oldest-finished']);
+    expect((await readdir(directory)).sort()).toEqual(['newest-finished.json', 'newest-finished.wav', 'recording.wav']);
+  });
+
+  it('does nothing when both limits are off', async () => {
+    await store('old', MB, 365, true);
+    expect(await applyRetention(directory, { retentionDays: 0, maxTotalMb: 0 }, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { Transcript } from '../src/transcript/index.js';
+
+const STARTED_AT = new Date('2026-01-01T00:00:00.000Z');
+
+describe('Transcript', () => {
+  it('joins tokens into one utterance and splits on pauses longer than utteranceGapMs', () => {
+    const transcript = new Transcript({ startedAt: STARTED_AT, utteranceGapMs: 1000 });
+
+    transcript.addBotText(' Hello', 0);
+    transcript.addBotText(' there.', 300);
+    transcript.addBotAudio(300, 800);
+    // 1000ms after the audio ended: still the same utterance
+    transcript.addBotText(' How', 1800);
+    transcript.addBotAudio(1800, 2000);
+    // 1001ms later: a new one
+    transcript.addBotText(' Bye.', 3001);
+    transcript.close(4000);
+
+    expect(transcript.entries).toEqual([
+      { speaker: 'bot', text: 'Hello there. How', startMs: 0, endMs: 2000 },
+      { speaker: 'bot', text: 'Bye.', startMs: 3001, endMs: 3001 },
+    ]);
+  });
+
+  it('truncates a bot utterance the caller barges into', () => {
+    const transcript = new Transcript({ startedAt: STARTED_AT });
+
+    transcript.addBotText(' Let me explain the whole policy', 0);
+    transcript.addBotAudio(0, 3000);
+    transcript.startCallerSpeech(1200);
+    transcript.interruptBot(1200);
+    transcript.endCallerSpeech(2000);
+    // Text arriving after the barge-in starts a new utterance
+    transcript.addBotText(' Sure.', 2500);
+    transcript.close(3000);
+
+    expect(transcript.entries).toEqual([
+      { speaker: 'bot', text: 'Let me explain the whole policy', startMs: 0, endMs: 1200, interrupted: true },
+      { speaker: 'caller', text: '', startMs: 1200, endMs: 2000 },
+      { speaker: 'bot', text: 'Sure.', startMs: 2500, endMs: 2500 },
+    ]);
+  });
+
+  it('orders caller and bot turns by start time', () => {
+    const transcript = new Transcript({ startedAt: STARTED_AT });
+
+    transcript.startCallerSpeech(100);
+    transcript.endCallerSpeech(900);
+    // Bot text can be added after caller speech that started later
+    transcript.startCallerSpeech(3000);
+    transcript.endCallerSpeech(3500);
+    transcript.addBotText(' Hi.', 1000);
+    transcript.addBotAudio(1000, 1500);
+    transcript.close(4000);
+
+    expect(transcript.entries.map((entry) => [entry.speaker, entry.startMs])).toEqual([
+      ['caller', 100],
+      ['bot', 1000],
+      ['caller', 3000],
+    ]);
+    expect(transcript.textOf('bot')).toBe('Hi.');
+    expect(transcript.durationMs).toBe(4000);
+  });
+
+  it('exports text and WebVTT with formatted timestamps', () => {
+    const transcript = new Transcript({ startedAt: STARTED_AT });
+
+    transcript.addBotText(' Press <1> & hold', 3_723_045);
+    transcript.addBotAudio(3_723_045, 3_724_000);
+    transcript.startCallerSpeech(3_725_000);
+    transcript.close(3_725_500);
+
+    expect(transcript.toText()).toBe([
+      '[01:02:03.045] Bot: Press <1> & hold',
+      '[01:02:05.000] Caller: [speech]',
+    ].join('\n'));
+
+    expect(transcript.toWebVTT()).toBe([
+      'WEBVTT',
+      '',
+      '1',
+      '01:02:03.045 --> 01:02:04.000',
+      '<v Bot>Press &lt;1&gt; &amp; hold',
+      '',
+      '2',
+      '01:02:05.000 --> 01:02:05.500',
+      '<v Caller>[speech]',
+      '',
+    ].join('\n'));
+
+    expect(transcript.toJSON().startedAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+});
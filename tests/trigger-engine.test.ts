@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { TriggerEngine, validateTriggerDefinitions, type TriggerDefinition, type TriggerMatch } from '../src/triggers/index.js';
+
+const TRANSFER: TriggerDefinition = {
+  id: 'escalate',
+  phrase: 'let me transfer you',
+  action: { type: 'transfer', target: { type: 'queue', name: 'agents' } },
+};
+
+function collect(engine: TriggerEngine): TriggerMatch[] {
+  const matches: TriggerMatch[] = [];
+  engine.on('match', (match) => matches.push(match));
+  return matches;
+}
+
+describe('TriggerEngine', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('matches a phrase split across tokens', () => {
+    const engine = new TriggerEngine([TRANSFER]);
+    const matches = collect(engine);
+
+    for (const token of ['Okay, let me', ' trans', 'fer you', ' now.']) {
+      engine.push(token);
+    }
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]!.trigger.id).toBe('escalate');
+    expect(matches[0]!.text).toBe('let me transfer you');
+    engine.dispose();
+  });
+
+  it('does not match a phrase that continues into a longer word', () => {
+    const engine = new TriggerEngine([TRANSFER]);
+    const matches = collect(engine);
+
+    engine.push('let me transfer you');
+    engine.push('r account details.');
+    engine.flush();
+
+    expect(matches).toHaveLength(0);
+    engine.dispose();
+  });
+
+  it('matches a phrase at the end of the text once it settles', () => {
+    vi.useFakeTimers();
+    const engine = new TriggerEngine([TRANSFER], { settleMs: 400 });
+    const matches = collect(engine);
+
+    engine.push('let me transfer you');
+    expect(matches).toHaveLength(0);
+
+    vi.advanceTimersByTime(399);
+    expect(matches).toHaveLength(0);
+    vi.advanceTimersByTime(1);
+    expect(matches).toHaveLength(1);
+    engine.dispose();
+  });
+
+  it('fires once by default and again on each match with once: false', () => {
+    const repeating: TriggerDefinition = { id: 'order', pattern: 'order \\d+', once: false, action: { type: 'event', name: 'order' } };
+    const engine = new TriggerEngine([TRANSFER, repeating]);
+    const matches = collect(engine);
+
+    engine.push('let me transfer you, order 12. ');
+    engine.push('let me transfer you, order 34. ');
+
+    expect(matches.map((match) => match.text)).toEqual(['let me transfer you', 'order 12', 'order 34']);
+    engine.dispose();
+  });
+
+  it('forgets pending text on reset but keeps fired triggers fired', () => {
+    const engine = new TriggerEngine([TRANSFER, { id: 'bye', phrase: 'goodbye', action: { type: 'hangup' } }]);
+    const matches = collect(engine);
+
+    engine.push('let me transfer you. good');
+    engine.reset();
+    engine.push('bye now. let me transfer you. ');
+
+    // "good" + "bye" straddle the reset, and the transfer already fired
+    expect(matches.map((match) => match.trigger.id)).toEqual(['escalate']);
+    engine.dispose();
+  });
+});
+
+describe('validateTriggerDefinitions', () => {
+  const check = (raw: unknown) => () => validateTriggerDefinitions(raw, 'TRIGGERS');
+
+  it('accepts valid triggers', () => {
+    expect(validateTriggerDefinitions([TRANSFER], 'TRIGGERS')).toEqual([TRANSFER]);
+  });
+
+  it('rejects malformed triggers', () => {
+    expect(check({ id: 'x' })).toThrow(/expected a list/);
+    expect(check([{ phrase: 'hi', action: { type: 'hangup' } }])).toThrow(/TRIGGERS\[0\]: id/);
+    expect(check([{ id: 'x', action: { type: 'hangup' } }])).toThrow(/exactly one of phrase or pattern/);
+    expect(check([{ id: 'x', phrase: 'hi', pattern: 'hi', action: { type: 'hangup' } }])).toThrow(/exactly one/);
+    expect(check([{ id: 'x', phrase: '...', action: { type: 'hangup' } }])).toThrow(/phrase has no words/);
+    expect(check([{ id: 'x', pattern: '(', action: { type: 'hangup' } }])).toThrow(/Invalid TRIGGERS\[0\]/);
+    expect(check([{ id: 'x', phrase: 'hi', delayMs: -1, action: { type: 'hangup' } }])).toThrow(/delayMs/);
+  });
+
+  it('rejects invalid actions', () => {
+    expect(check([{ id: 'x', phrase: 'hi', action: { type: 'dance' } }])).toThrow(/action.type/);
+    expect(check([{ id: 'x', phrase: 'hi', action: { type: 'notify' } }])).toThrow(/action.message/);
+    expect(check([{ id: 'x', phrase: 'hi', action: { type: 'transfer', target: { type: 'number' } } }])).toThrow(/action.target/);
+    expect(check([{ id: 'x', phrase: 'hi', action: { type: 'transfer', target: { type: 'sip', uri: '' } } }])).toThrow(/action.target/);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { generateDialTwiml, generateDequeueTwiml } from '../src/twilio/twiml.js';
+
+describe('generateDialTwiml', () => {
+  it('dials a number with the whisper on the agent leg', () => {
+    const twiml = generateDialTwiml({ type: 'number', number: '+15551234567' }, {
+      message: 'Transferring you now.',
+      whisperUrl: 'https://bridge.example.com/transfer-whisper?call=CA1&x=1',
+      timeoutSeconds: 20,
+    });
+
+    expect(twiml).toContain('<Say voice="Polly.Joanna">Transferring you now.</Say>');
+    expect(twiml).toContain('<Dial timeout="20">');
+    expect(twiml).toContain('<Number url="https://bridge.example.com/transfer-whisper?call=CA1&amp;x=1">+15551234567</Number>');
+  });
+
+  it('enqueues the caller for a queue target instead of dequeuing someone else', () => {
+    const twiml = generateDialTwiml({ type: 'queue', name: 'support' }, {
+      whisperUrl: 'https://bridge.example.com/transfer-whisper?call=CA1',
+      queueActionUrl: 'https://bridge.example.com/transfer-queue-left?queue=support&call=CA1',
+    });
+
+    expect(twiml).toContain('<Enqueue action="https://bridge.example.com/transfer-queue-left?queue=support&amp;call=CA1">support</Enqueue>');
+    expect(twiml).not.toContain('<Dial');
+    expect(twiml).not.toContain('<Queue');
+    expect(twiml).not.toContain('transfer-whisper');
+  });
+});
+
+describe('generateDequeueTwiml', () => {
+  it('whispers to the agent before connecting them to the queue', () => {
+    const twiml = generateDequeueTwiml('support', 'Caller asked about a <refund>.');
+
+    expect(twiml).toMatch(/<Say voice="Polly.Joanna">Caller asked about a &lt;refund&gt;.<\/Say>\s*<Dial>\s*<Queue>support<\/Queue>\s*<\/Dial>/);
+  });
+
+  it('connects without a whisper when there is no summary', () => {
+    expect(generateDequeueTwiml('support')).not.toContain('<Say');
+  });
+});